@@ -0,0 +1,52 @@
+/**
+ * Topic Cluster Context
+ * 专题上下文 - 生成专题中的文章时传给提示词，并保证支撑文章链接到支柱文章
+ */
+
+import type { PromptVariables } from '@seo-spy/prompts';
+import type { ArticleTemplate, GeneratedArticle } from './index.js';
+
+export interface ClusterContext {
+  id: string;
+  role: 'pillar' | 'supporting';
+  pillarKeyword: string;
+  // 支柱文章地址（/articles/<slug>/），支柱文章生成后才有
+  pillarUrl?: string;
+  // 同一专题其他文章的关键词
+  related: string[];
+}
+
+/**
+ * 提示词变量：isPillar / relatedKeywords 用于支柱文章，pillarKeyword / pillarUrl 用于支撑文章
+ */
+export function clusterPromptVariables(cluster: ClusterContext | undefined, language: ArticleTemplate['language']): PromptVariables {
+  if (!cluster) {
+    return {};
+  }
+
+  return {
+    isPillar: cluster.role === 'pillar' && cluster.related.length > 0,
+    relatedKeywords: cluster.related.join(language === 'zh-CN' ? '、' : ', '),
+    pillarKeyword: cluster.pillarKeyword,
+    pillarUrl: cluster.role === 'supporting' ? cluster.pillarUrl : undefined
+  };
+}
+
+/**
+ * 记录专题信息；支撑文章正文中没有指向支柱文章的链接时，在末尾补一条延伸阅读
+ */
+export function applyClusterContext(
+  article: GeneratedArticle,
+  cluster: ClusterContext,
+  language: ArticleTemplate['language']
+): GeneratedArticle {
+  let content = article.content;
+  const url = cluster.pillarUrl;
+
+  if (cluster.role === 'supporting' && url && !content.includes(`](${url}`) && !content.includes(`](${url.replace(/\/$/, '')})`)) {
+    const label = language === 'zh-CN' ? '延伸阅读：' : 'Further reading: ';
+    content = `${content.trimEnd()}\n\n${label}[${cluster.pillarKeyword}](${url})\n`;
+  }
+
+  return { ...article, content, metadata: { ...article.metadata, cluster } };
+}
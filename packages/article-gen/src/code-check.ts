@@ -0,0 +1,339 @@
+#!/usr/bin/env node
+
+/**
+ * Code Snippet Verification
+ * 代码校验 - 用 TypeScript 编译器检查文章中的 ts / tsx / js / jsx 代码块（只做静态检查，不执行代码），
+ * 可让内容提供方修正出错的代码块；未通过的文章隔离到 quarantine，不进入站点
+ */
+
+import { readFileSync, readdirSync, existsSync, writeFileSync, mkdirSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import matter from 'gray-matter';
+import ts from 'typescript';
+import type { GeneratedArticle } from './index.js';
+import type { RefreshRequest } from './refresh.js';
+
+/**
+ * syntax：只检查语法；types：在内存中按 ES2022 + DOM 类型库做类型检查，能发现不存在的 API 和参数错误
+ */
+export type CodeCheckMode = 'syntax' | 'types';
+
+export type CodeLanguage = 'ts' | 'tsx' | 'js' | 'jsx';
+
+export interface CodeBlock {
+  // 文章中第几个可检查的代码块（从 0 开始）
+  index: number;
+  lang: CodeLanguage;
+  code: string;
+  // 开始围栏所在行（从 1 开始）
+  line: number;
+  // 整个代码块（含围栏）在 Markdown 中的位置
+  start: number;
+  end: number;
+}
+
+export interface CodeDiagnostic {
+  code: number;
+  message: string;
+  // 相对代码块第一行
+  line: number;
+  column: number;
+}
+
+export interface SnippetResult {
+  index: number;
+  lang: CodeLanguage;
+  line: number;
+  valid: boolean;
+  diagnostics: CodeDiagnostic[];
+  // 由内容提供方修正后通过检查
+  fixed?: boolean;
+}
+
+/**
+ * 单篇文章的检查结果，写入 metadata.codeCheck
+ */
+export interface CodeCheckReport {
+  mode: CodeCheckMode;
+  checkedAt: string;
+  snippets: SnippetResult[];
+  // 修正后仍未通过的代码块数
+  failed: number;
+  passed: boolean;
+}
+
+export interface CodeCheckOptions {
+  mode?: CodeCheckMode;
+  // 额外忽略的 TypeScript 诊断码
+  ignoreCodes?: number[];
+}
+
+/**
+ * 修正代码块：传入只含该代码块的改写请求，返回修正后的代码块
+ */
+export type CodeFixer = (request: RefreshRequest) => Promise<string>;
+
+const LANGUAGES: Record<string, CodeLanguage> = {
+  ts: 'ts',
+  typescript: 'ts',
+  mts: 'ts',
+  cts: 'ts',
+  tsx: 'tsx',
+  js: 'js',
+  javascript: 'js',
+  mjs: 'js',
+  cjs: 'js',
+  jsx: 'jsx'
+};
+
+// 代码片段通常省略了 import 的依赖和上下文变量，类型检查时不把这些算作错误：
+// 找不到名称 / 模块 / 命名空间、缺少声明文件、缺少 @types/node 等
+const SNIPPET_IGNORED_CODES = [2304, 2307, 2503, 2552, 2580, 2582, 2591, 2592, 2593, 2792, 7016];
+
+// 信息字符串带 nocheck 的代码块不检查，如 ```ts nocheck
+const FENCE = /^(`{3,}|~{3,})[ \t]*([\w-]*)([^\n]*)\n([\s\S]*?)\n\1[ \t]*$/gm;
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  moduleDetection: ts.ModuleDetectionKind.Force,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  jsx: ts.JsxEmit.Preserve,
+  allowJs: true,
+  checkJs: true,
+  strict: false,
+  noEmit: true,
+  skipLibCheck: true,
+  types: []
+};
+
+// 类型库只解析一次，所有代码块共用
+const libFiles: Map<string, ts.SourceFile | undefined> = new Map();
+
+/**
+ * 提取 Markdown 中的 ts / tsx / js / jsx 代码块
+ */
+export function extractCodeBlocks(markdown: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+
+  for (const match of markdown.matchAll(FENCE)) {
+    const lang = LANGUAGES[match[2].toLowerCase()];
+    if (!lang || /\bno-?check\b/.test(match[3])) {
+      continue;
+    }
+
+    const start = match.index!;
+    blocks.push({
+      index: blocks.length,
+      lang,
+      code: match[4],
+      line: markdown.slice(0, start).split('\n').length,
+      start,
+      end: start + match[0].length
+    });
+  }
+
+  return blocks;
+}
+
+export function checkSnippet(block: CodeBlock, options: CodeCheckOptions = {}): SnippetResult {
+  const mode = options.mode || 'types';
+  const fileName = `/snippet/index.${block.lang}`;
+  let diagnostics: readonly ts.Diagnostic[];
+
+  if (mode === 'syntax') {
+    diagnostics = ts.transpileModule(block.code, {
+      fileName,
+      reportDiagnostics: true,
+      compilerOptions: { jsx: ts.JsxEmit.Preserve, allowJs: true }
+    }).diagnostics || [];
+  } else {
+    const program = createSnippetProgram(fileName, block.code);
+    const sourceFile = program.getSourceFile(fileName)!;
+    const syntactic = program.getSyntacticDiagnostics(sourceFile);
+    // 语法错误时语义检查没有意义
+    diagnostics = syntactic.length > 0 ? syntactic : program.getSemanticDiagnostics(sourceFile);
+  }
+
+  const ignored = new Set([...SNIPPET_IGNORED_CODES, ...(options.ignoreCodes || [])]);
+  const results = diagnostics
+    .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error && !ignored.has(diagnostic.code))
+    .map(diagnostic => toCodeDiagnostic(diagnostic));
+
+  return { index: block.index, lang: block.lang, line: block.line, valid: results.length === 0, diagnostics: results };
+}
+
+export function checkArticleCode(markdown: string, options: CodeCheckOptions = {}): CodeCheckReport {
+  const snippets = extractCodeBlocks(markdown).map(block => checkSnippet(block, options));
+  const failed = snippets.filter(snippet => !snippet.valid).length;
+
+  return { mode: options.mode || 'types', checkedAt: new Date().toISOString(), snippets, failed, passed: failed === 0 };
+}
+
+/**
+ * 检查文章代码；提供 fix 时逐个修正出错的代码块，修正后通过检查才替换原代码块
+ * 返回的文章带有 metadata.codeCheck，原文章不变
+ */
+export async function verifyArticleCode(
+  article: GeneratedArticle,
+  options: CodeCheckOptions & { fix?: CodeFixer } = {}
+): Promise<{ article: GeneratedArticle; report: CodeCheckReport }> {
+  const report = checkArticleCode(article.content, options);
+  let content = article.content;
+
+  if (!report.passed && options.fix) {
+    const blocks = extractCodeBlocks(content);
+
+    // 从后往前替换，前面代码块的位置不受影响
+    for (const snippet of [...report.snippets].reverse()) {
+      if (snippet.valid) {
+        continue;
+      }
+
+      const block = blocks[snippet.index];
+      const fixed = await fixSnippet(article, block, snippet, options.fix, options);
+      if (fixed) {
+        content = content.slice(0, block.start) + fixed.source + content.slice(block.end);
+        Object.assign(snippet, fixed.result, { fixed: true });
+        console.log(`🔧 Fixed ${block.lang} block at line ${block.line} in ${article.slug}`);
+      }
+    }
+
+    report.failed = report.snippets.filter(snippet => !snippet.valid).length;
+    report.passed = report.failed === 0;
+  }
+
+  return {
+    article: { ...article, content, metadata: { ...article.metadata, codeCheck: report } },
+    report
+  };
+}
+
+/**
+ * 隔离代码未通过检查的文章：从 <outputDir>/articles 移到 <outputDir>/quarantine，并保存检查结果
+ */
+export function quarantineCodeFailure(outputDir: string, article: GeneratedArticle, report: CodeCheckReport): string {
+  const quarantineDir = join(process.cwd(), outputDir, 'quarantine');
+  mkdirSync(quarantineDir, { recursive: true });
+
+  const filePath = join(quarantineDir, `${article.slug}.md`);
+  writeFileSync(filePath, matter.stringify(article.content, article.frontmatter));
+  writeFileSync(join(quarantineDir, `${article.slug}.code-check.json`), JSON.stringify(report, null, 2));
+
+  const publishedPath = join(process.cwd(), outputDir, 'articles', `${article.slug}.md`);
+  if (existsSync(publishedPath)) {
+    unlinkSync(publishedPath);
+  }
+
+  console.warn(`🚧 Quarantined (${report.failed} broken code block(s)): ${filePath}`);
+  return filePath;
+}
+
+export function formatDiagnostic(snippet: SnippetResult, diagnostic: CodeDiagnostic): string {
+  return `line ${snippet.line + diagnostic.line} (${snippet.lang} block #${snippet.index + 1}): TS${diagnostic.code} ${diagnostic.message}`;
+}
+
+async function fixSnippet(
+  article: GeneratedArticle,
+  block: CodeBlock,
+  snippet: SnippetResult,
+  fix: CodeFixer,
+  options: CodeCheckOptions
+): Promise<{ source: string; result: SnippetResult } | undefined> {
+  const errors = snippet.diagnostics.map(diagnostic => `- 第 ${diagnostic.line} 行：${diagnostic.message}`).join('\n');
+
+  try {
+    const response = await fix({
+      keyword: article.metadata.keyword,
+      title: article.title,
+      markdown: `\`\`\`${block.lang}\n${block.code}\n\`\`\``,
+      brief: `下面的代码块无法通过 TypeScript 编译检查，请修正这些错误，只输出修正后的代码块，不要输出其他内容：\n${errors}`
+    });
+
+    const code = extractCodeBlocks(response)[0]?.code ?? response.trim();
+    const result = checkSnippet({ ...block, code }, options);
+
+    return result.valid ? { source: `\`\`\`${block.lang}\n${code}\n\`\`\``, result } : undefined;
+  } catch (error) {
+    console.warn(`⚠️  Failed to fix code block at line ${block.line} in ${article.slug}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * 只包含一个代码块的内存程序，类型库从已安装的 typescript 包读取
+ */
+function createSnippetProgram(fileName: string, code: string): ts.Program {
+  const host = ts.createCompilerHost(COMPILER_OPTIONS);
+
+  // languageVersion 中带有 moduleDetection，代码块总是按模块处理，不会与 DOM 全局变量冲突
+  host.getSourceFile = (name, languageVersion) => {
+    if (name === fileName) {
+      return ts.createSourceFile(name, code, languageVersion, true);
+    }
+
+    if (!libFiles.has(name)) {
+      const text = ts.sys.readFile(name);
+      libFiles.set(name, text === undefined ? undefined : ts.createSourceFile(name, text, languageVersion));
+    }
+
+    return libFiles.get(name);
+  };
+
+  const fileExists = host.fileExists.bind(host);
+  host.fileExists = name => name === fileName || fileExists(name);
+
+  return ts.createProgram([fileName], COMPILER_OPTIONS, host);
+}
+
+function toCodeDiagnostic(diagnostic: ts.Diagnostic): CodeDiagnostic {
+  const position = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    : { line: 0, character: 0 };
+
+  return {
+    code: diagnostic.code,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    line: position.line + 1,
+    column: position.character + 1
+  };
+}
+
+// CLI 入口：检查已保存文章中的代码块
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const modeIndex = args.indexOf('--mode');
+  const mode = modeIndex >= 0 ? args[modeIndex + 1] as CodeCheckMode : undefined;
+  const dirs = args.filter((arg, index) => !arg.startsWith('--') && index !== modeIndex + 1);
+  let failedArticles = 0;
+
+  for (const dir of dirs.length > 0 ? dirs : ['data/articles']) {
+    const fullPath = join(process.cwd(), dir);
+    if (!existsSync(fullPath)) {
+      console.warn(`⚠️  Directory not found: ${dir}`);
+      continue;
+    }
+
+    for (const file of readdirSync(fullPath).filter(name => /\.mdx?$/.test(name))) {
+      const report = checkArticleCode(matter(readFileSync(join(fullPath, file), 'utf-8')).content, { mode });
+      if (report.snippets.length === 0) {
+        continue;
+      }
+
+      if (report.passed) {
+        console.log(`✅ ${join(dir, file)}: ${report.snippets.length} code block(s)`);
+        continue;
+      }
+
+      failedArticles++;
+      console.log(`❌ ${join(dir, file)}: ${report.failed}/${report.snippets.length} code block(s) failed`);
+      for (const snippet of report.snippets) {
+        snippet.diagnostics.forEach(diagnostic => console.log(`   ${formatDiagnostic(snippet, diagnostic)}`));
+      }
+    }
+  }
+
+  console.log(failedArticles > 0 ? `\n⚠️  ${failedArticles} article(s) with broken code` : '\n✅ All code blocks passed');
+  process.exitCode = failedArticles > 0 ? 1 : 0;
+}
@@ -0,0 +1,337 @@
+#!/usr/bin/env node
+
+/**
+ * Duplicate Content Detection
+ * 重复检测 - 用 shingling + MinHash 估算文章间的相似度，保存前拦截近似重复，并可单独审计已有文章
+ */
+
+import { readFileSync, readdirSync, existsSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import matter from 'gray-matter';
+import { countWords } from './quality.js';
+import type { GeneratedArticle } from './index.js';
+
+export interface DedupeDocument {
+  // slug，同一 slug 在多个目录中只计一次
+  id: string;
+  title: string;
+  content: string;
+  // 来源目录，新生成的文章为 generated
+  source: string;
+  wordCount: number;
+  seoScore?: number;
+  date?: string;
+}
+
+export interface SimilarityMatch {
+  document: DedupeDocument;
+  // MinHash 估算的 Jaccard 相似度（0-1）
+  similarity: number;
+}
+
+export interface DuplicatePair {
+  a: string;
+  b: string;
+  similarity: number;
+  // 建议保留的文章
+  canonical: string;
+  duplicate: string;
+  // canonical：几乎相同，重复文章指向 canonical；merge：部分重叠，合并到 canonical
+  suggestion: 'canonical' | 'merge';
+  reason: string;
+}
+
+export interface DedupeConfig {
+  // 相似度阈值，默认 0.5
+  threshold?: number;
+  // skip：不保存重复文章（默认）；warn：只报告
+  onDuplicate?: 'skip' | 'warn';
+  // 参与比较的站点内容集合，默认 site-template 的 posts
+  contentDirs?: string[];
+}
+
+export interface DetectorOptions {
+  threshold?: number;
+  // 每个 shingle 的词数（中日韩按字），默认 3
+  shingleSize?: number;
+  // MinHash 签名长度，默认 128
+  numHashes?: number;
+}
+
+export const DEFAULT_CONTENT_DIRS = ['packages/site-template/src/content/posts'];
+
+// 相似度达到此值视为几乎相同，建议 canonical 而不是合并
+const CANONICAL_SIMILARITY = 0.8;
+
+// 汉字、假名、谚文逐字，其余按字母数字词；标点不参与比较
+const TOKEN = /[\u3040-\u30ff\u4e00-\u9fff\uac00-\ud7af]|[a-z0-9]+/g;
+
+export class DuplicateDetector {
+  private threshold: number;
+  private shingleSize: number;
+  private seeds: number[];
+  private entries: { document: DedupeDocument; signature: Uint32Array }[] = [];
+
+  constructor(options: DetectorOptions = {}) {
+    this.threshold = options.threshold ?? 0.5;
+    this.shingleSize = options.shingleSize ?? 3;
+    this.seeds = Array.from({ length: options.numHashes ?? 128 }, (_, i) => fmix32(Math.imul(i + 1, 0x9e3779b9)));
+  }
+
+  add(document: DedupeDocument): void {
+    this.entries.push({ document, signature: this.sign(document.content) });
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * 与已加入的文章比较，返回超过阈值的匹配（相似度从高到低）
+   */
+  findSimilar(document: DedupeDocument): SimilarityMatch[] {
+    const signature = this.sign(document.content);
+
+    return this.entries
+      .filter(entry => entry.document.id !== document.id)
+      .map(entry => ({ document: entry.document, similarity: compare(signature, entry.signature) }))
+      .filter(match => match.similarity >= this.threshold)
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * 所有已加入文章中超过阈值的文章对
+   */
+  findPairs(): DuplicatePair[] {
+    const pairs: DuplicatePair[] = [];
+
+    for (let i = 0; i < this.entries.length; i++) {
+      for (let j = i + 1; j < this.entries.length; j++) {
+        const similarity = compare(this.entries[i].signature, this.entries[j].signature);
+        if (similarity >= this.threshold) {
+          pairs.push(suggestCanonical(this.entries[i].document, this.entries[j].document, similarity));
+        }
+      }
+    }
+
+    return pairs.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  private sign(content: string): Uint32Array {
+    const signature = new Uint32Array(this.seeds.length).fill(0xffffffff);
+
+    for (const shingle of this.shingle(content)) {
+      const hash = fnv1a(shingle);
+      for (let i = 0; i < this.seeds.length; i++) {
+        const value = fmix32(hash ^ this.seeds[i]);
+        if (value < signature[i]) {
+          signature[i] = value;
+        }
+      }
+    }
+
+    return signature;
+  }
+
+  /**
+   * 只比较正文：去掉代码块和 Markdown 符号，中日韩按字、其余按词切分
+   */
+  private shingle(content: string): Set<string> {
+    const tokens = content
+      .replace(/```[\s\S]*?```/g, ' ')
+      .toLowerCase()
+      .match(TOKEN) || [];
+    const shingles = new Set<string>();
+
+    for (let i = 0; i + this.shingleSize <= tokens.length; i++) {
+      shingles.add(tokens.slice(i, i + this.shingleSize).join(' '));
+    }
+
+    // 过短的文章整体作为一个 shingle
+    if (shingles.size === 0 && tokens.length > 0) {
+      shingles.add(tokens.join(' '));
+    }
+
+    return shingles;
+  }
+}
+
+/**
+ * 建议保留哪一篇：评分高者优先，其次字数多者，再次发布较早者（已有排名的页面不换 URL）
+ */
+export function suggestCanonical(a: DedupeDocument, b: DedupeDocument, similarity: number): DuplicatePair {
+  const [canonical, duplicate, reason] = pickCanonical(a, b);
+
+  return {
+    a: a.id,
+    b: b.id,
+    similarity: Math.round(similarity * 1000) / 1000,
+    canonical: canonical.id,
+    duplicate: duplicate.id,
+    suggestion: similarity >= CANONICAL_SIMILARITY ? 'canonical' : 'merge',
+    reason
+  };
+}
+
+export function toDedupeDocument(article: GeneratedArticle, source = 'generated'): DedupeDocument {
+  return {
+    id: article.slug,
+    title: article.title,
+    content: article.content,
+    source,
+    wordCount: article.metadata.wordCount,
+    seoScore: article.frontmatter.seoScore,
+    date: article.frontmatter.date
+  };
+}
+
+/**
+ * 读取目录中的 .md / .mdx 文章，同一 slug 只保留第一次出现的
+ */
+export function loadDedupeDocuments(dirs: string[]): DedupeDocument[] {
+  const documents = new Map<string, DedupeDocument>();
+
+  for (const dir of dirs) {
+    const fullDir = join(process.cwd(), dir);
+    if (!existsSync(fullDir)) {
+      continue;
+    }
+
+    for (const file of readdirSync(fullDir).filter(name => /\.mdx?$/.test(name))) {
+      const id = file.replace(/\.mdx?$/, '');
+      if (documents.has(id)) {
+        continue;
+      }
+
+      const { data, content } = matter(readFileSync(join(fullDir, file), 'utf-8'));
+      documents.set(id, {
+        id,
+        title: data.title || id,
+        content,
+        source: dir,
+        wordCount: countWords(content),
+        seoScore: typeof data.seoScore === 'number' ? data.seoScore : undefined,
+        date: data.date ? new Date(data.date).toISOString().split('T')[0] : undefined
+      });
+    }
+  }
+
+  return [...documents.values()];
+}
+
+/**
+ * 用 <outputDir>/articles 和站点内容集合中的已有文章初始化检测器
+ */
+export function createDuplicateDetector(outputDir: string, config: DedupeConfig): DuplicateDetector {
+  const detector = new DuplicateDetector({ threshold: config.threshold });
+  const dirs = [join(outputDir, 'articles'), ...(config.contentDirs || DEFAULT_CONTENT_DIRS)];
+
+  for (const document of loadDedupeDocuments(dirs)) {
+    detector.add(document);
+  }
+
+  return detector;
+}
+
+/**
+ * 保存前检查：返回最相似的一对（没有则为 undefined）；不是重复或 onDuplicate 为 warn 时把文章加入检测器
+ */
+export function screenArticle(
+  detector: DuplicateDetector,
+  article: GeneratedArticle,
+  config: DedupeConfig
+): DuplicatePair | undefined {
+  const document = toDedupeDocument(article);
+  const [match] = detector.findSimilar(document);
+  const pair = match ? suggestCanonical(document, match.document, match.similarity) : undefined;
+
+  if (pair) {
+    console.warn(
+      `♊ "${article.slug}" is ${Math.round(pair.similarity * 100)}% similar to "${match.document.id}" ` +
+      `(${pair.suggestion}, keep ${pair.canonical}: ${pair.reason})`
+    );
+  }
+
+  if (!pair || config.onDuplicate === 'warn') {
+    detector.add(document);
+  }
+
+  return pair;
+}
+
+function pickCanonical(a: DedupeDocument, b: DedupeDocument): [DedupeDocument, DedupeDocument, string] {
+  if ((a.seoScore ?? 0) !== (b.seoScore ?? 0)) {
+    return (a.seoScore ?? 0) > (b.seoScore ?? 0) ? [a, b, 'higher SEO score'] : [b, a, 'higher SEO score'];
+  }
+  if (a.wordCount !== b.wordCount) {
+    return a.wordCount > b.wordCount ? [a, b, 'longer'] : [b, a, 'longer'];
+  }
+  if (a.date && b.date && a.date !== b.date) {
+    return a.date < b.date ? [a, b, 'published earlier'] : [b, a, 'published earlier'];
+  }
+
+  return a.id <= b.id ? [a, b, 'tie'] : [b, a, 'tie'];
+}
+
+function compare(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) {
+      equal++;
+    }
+  }
+
+  return equal / a.length;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+function fmix32(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+
+  return h >>> 0;
+}
+
+// CLI 入口：审计 data/articles 和站点内容集合中的重复文章
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const thresholdIndex = args.indexOf('--threshold');
+  const threshold = thresholdIndex >= 0 ? parseFloat(args[thresholdIndex + 1]) : undefined;
+  const extraDirs = args.filter((arg, index) => !arg.startsWith('--') && index !== thresholdIndex + 1);
+  const dirs = ['data/articles', ...DEFAULT_CONTENT_DIRS, ...extraDirs];
+
+  const detector = new DuplicateDetector({ threshold });
+  for (const document of loadDedupeDocuments(dirs)) {
+    detector.add(document);
+  }
+
+  console.log(`🔍 Comparing ${detector.size()} articles from ${dirs.join(', ')}`);
+  const pairs = detector.findPairs();
+
+  for (const pair of pairs) {
+    console.log(
+      `♊ ${Math.round(pair.similarity * 100)}%  ${pair.a} ↔ ${pair.b}  → ${pair.suggestion}, keep ${pair.canonical} (${pair.reason})`
+    );
+  }
+
+  const logsDir = join(process.cwd(), 'data/logs');
+  mkdirSync(logsDir, { recursive: true });
+  const reportPath = join(logsDir, 'duplicates-report.json');
+  writeFileSync(reportPath, JSON.stringify({ generatedAt: new Date().toISOString(), dirs, pairs }, null, 2));
+
+  console.log(pairs.length > 0 ? `\n⚠️  ${pairs.length} duplicate pair(s) found` : '\n✅ No duplicates found');
+  console.log(`📄 Report: ${reportPath}`);
+}
@@ -6,25 +6,81 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import { writeFileSync, mkdirSync, readFileSync } from 'fs';
+import { writeFileSync, mkdirSync, readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import matter from 'gray-matter';
+import { estimateTokens, isBudgetError, type BudgetTracker } from '@seo-spy/llm-budget';
+import { streamWithRecovery, type StreamRecoveryOptions } from '@seo-spy/llm-stream';
+import { PromptLibrary, hashPrompt, mergePromptUsages, type PromptUsage, type PromptVariables, type RenderedPrompt } from '@seo-spy/prompts';
+import { DEFAULT_RATE_LIMIT, TaskQueue, type TaskQueueOptions } from '@seo-spy/task-queue';
+import { checkKeywordPlacement, splitSections, type ArticleSection, type KeywordRule, type KeywordRuleResult } from './keyword-rules.js';
+import {
+  analyzeArticle,
+  applyQualityReport,
+  countWords,
+  generateWithQualityGate,
+  quarantineArticle,
+  type QualityGateConfig,
+  type QualityReport
+} from './quality.js';
+import {
+  createDuplicateDetector,
+  screenArticle,
+  type DedupeConfig,
+  type DuplicateDetector,
+  type DuplicatePair
+} from './dedupe.js';
+import { ArticleValidationError, parseArticleOutput, type ArticleOutputResult, type OutputRepair } from './output.js';
+import type { RefreshRequest } from './refresh.js';
+import type { CodeCheckReport } from './code-check.js';
+import { applyClusterContext, clusterPromptVariables, type ClusterContext } from './cluster.js';
+import { createSlugService, slugify, type SlugOptions, type SlugService } from './slug.js';
+import { buildProvenance, saveProvenance } from './provenance.js';
+import type { CodeSample, FaqItem, HowTo } from './structured.js';
 
-interface ArticleGenConfig {
+/**
+ * single：一次调用生成整篇文章
+ * multi-pass：先生成大纲，再逐节撰写，最后检查关键词位置并修订（避免长文被 max_tokens 截断）
+ */
+export type GenerationMode = 'single' | 'multi-pass';
+
+export interface ArticleGenConfig {
   apiKey: string;
   model?: string;
   outputDir: string;
   keywords: KeywordInput[];
   template?: ArticleTemplate;
+  // 设置后每次调用前检查预算并记录 token 用量
+  budget?: BudgetTracker;
+  // 默认 single
+  mode?: GenerationMode;
+  // 设置后评分低于 minScore 的文章重新生成或隔离，不会保存
+  quality?: QualityGateConfig;
+  // 设置后保存前与已有文章比较，拦截近似重复
+  dedupe?: DedupeConfig;
+  // 提示词模板库，默认只使用包内模板和 prompts/ 下的覆盖
+  prompts?: PromptLibrary;
+  // generateAll 的并发、限流（限流器名为 claude）和重试；设置 stateDir 后中断的批次可续跑
+  queue?: Omit<TaskQueueOptions, 'isFatal'>;
+  // slug 生成方式和最大长度；关键词 → slug 记录在 <outputDir>/slugs.json，重新生成时 URL 不变
+  slugs?: SlugOptions;
+  // 流水线运行 ID，写入每篇文章的溯源记录
+  runId?: string;
+  // 流式生成：部分输出的保存目录（默认 <outputDir>/partial）和断开后的最多续写次数
+  stream?: StreamRecoveryOptions;
 }
 
-interface KeywordInput {
+export interface KeywordInput {
   keyword: string;
   volume: number;
   difficulty: number;
+  // 所属领域，用于选择 prompts/niches/<领域>/ 下的模板
+  niche?: string;
+  // 按专题规划生成时所在的专题
+  cluster?: ClusterContext;
 }
 
-interface ArticleTemplate {
+export interface ArticleTemplate {
   minWords: number;
   includeCodeExamples: boolean;
   includeImages: boolean;
@@ -32,7 +88,7 @@ interface ArticleTemplate {
   language: 'zh-CN' | 'en-US';
 }
 
-interface GeneratedArticle {
+export interface GeneratedArticle {
   slug: string;
   title: string;
   content: string;
@@ -44,45 +100,159 @@ interface GeneratedArticle {
     author: string;
     tags: string[];
     seoScore: number;
+    // structured-data 阶段从正文中提取
+    faq?: FaqItem[];
+    howTo?: HowTo;
+    codeSamples?: CodeSample[];
   };
   metadata: {
     keyword: string;
     wordCount: number;
     generatedAt: string;
     model: string;
+    // 每一轮模型调用（multi-pass 还包括关键词检查）的记录，写入 provenance 文件
+    passes?: GenerationPass[];
+    // 有调用中途断开、由多段流续写拼成时为 true
+    stitched?: boolean;
+    // 本地质量分析结果，frontmatter.seoScore 即其总分
+    quality?: QualityReport;
+    // 生成本文所用的提示词模板版本
+    prompts?: PromptUsage[];
+    // 解析模型输出时自动修复的格式偏差
+    repairs?: OutputRepair[];
+    // code-verification 阶段对代码块的检查结果
+    codeCheck?: CodeCheckReport;
+    cluster?: ClusterContext;
   };
 }
 
+/**
+ * 批量生成中一个关键词的处理结果（中断续跑时从队列状态中恢复）
+ */
+export interface GenerationOutcome {
+  article: GeneratedArticle;
+  // saved：已保存；quarantined：未通过质量门禁；duplicate：与已有文章近似重复而未保存
+  status: 'saved' | 'quarantined' | 'duplicate';
+  duplicate?: DuplicatePair;
+}
+
+export interface GenerationPass {
+  // draft / repair：一次生成及输出未通过校验时的重试；其余为 multi-pass 的各轮
+  pass: 'draft' | 'repair' | 'outline' | 'section' | 'critique' | 'revision';
+  // 小节标题，或修订针对的规则
+  target?: string;
+  // 调用参数和完整提示词的哈希（critique 是本地检查，没有这些字段）
+  model?: string;
+  temperature?: number;
+  promptHash?: string;
+  // 流中途断开后续写时，拼成本轮输出的流数
+  streams?: number;
+  inputTokens: number;
+  outputTokens: number;
+  // critique：未通过的关键词规则
+  issues?: KeywordRule[];
+  prompts?: PromptUsage[];
+}
+
+/**
+ * 一次文章生成请求（dry-run 时用于估算 token 成本）
+ */
+export interface ArticleRequest {
+  model: string;
+  maxTokens: number;
+  system: string;
+  prompt: string;
+  // 渲染 system / prompt 用到的模板
+  prompts?: PromptUsage[];
+}
+
+// article-gen.article 模板中的文章结构，multi-pass 的大纲也按此生成
+const ARTICLE_STRUCTURE = [
+  '引人入胜的导语',
+  '问题背景和重要性',
+  '核心概念解析',
+  '实战代码示例',
+  '最佳实践和注意事项',
+  '总结和延伸阅读'
+];
+
+// multi-pass 各轮的 max_tokens
+const OUTLINE_MAX_TOKENS = 1024;
+const SECTION_MAX_TOKENS = 2048;
+const TITLE_MAX_TOKENS = 100;
+const HEADINGS_MAX_TOKENS = 400;
+
+const TEMPERATURE = 0.7;
+
+interface CompletionResult {
+  text: string;
+  model: string;
+  temperature: number;
+  promptHash: string;
+  // 拼成输出的流数
+  streams: number;
+  inputTokens: number;
+  outputTokens: number;
+  prompts?: PromptUsage[];
+}
+
 export class ArticleGenerator {
   private client: Anthropic;
   private config: ArticleGenConfig;
+  private unprocessed: KeywordInput[] = [];
+  private quarantined: GeneratedArticle[] = [];
+  private duplicates: DuplicatePair[] = [];
+  private detector?: DuplicateDetector;
+  private prompts: PromptLibrary;
+  private slugs?: SlugService;
 
   constructor(config: ArticleGenConfig) {
     this.config = config;
+    this.prompts = config.prompts || new PromptLibrary();
     this.client = new Anthropic({
       apiKey: config.apiKey,
       dangerouslyAllowBrowser: false // 服务端使用
     });
   }
 
-  async generateAll(): Promise<GeneratedArticle[]> {
+  async generateAll(keywords: KeywordInput[] = this.config.keywords): Promise<GeneratedArticle[]> {
     console.log('🤖 Starting article generation...');
 
     const articles: GeneratedArticle[] = [];
+    this.unprocessed = [];
+    this.quarantined = [];
+    this.duplicates = [];
+
+    // 预算用尽时停止队列，剩余关键词留给下一次运行
+    const queue = new TaskQueue<KeywordInput, GenerationOutcome>({
+      rateLimits: { claude: DEFAULT_RATE_LIMIT },
+      ...this.config.queue,
+      isFatal: isBudgetError
+    });
+    const result = await queue.run(
+      keywords.map(keywordData => ({ id: keywordData.keyword, data: keywordData, limiter: 'claude' })),
+      keywordData => this.processKeyword(keywordData)
+    );
+
+    for (const { result: outcome } of result.completed) {
+      if (outcome.duplicate) {
+        this.duplicates.push(outcome.duplicate);
+      }
 
-    for (const keywordData of this.config.keywords) {
-      try {
-        const article = await this.generateArticle(keywordData);
-        articles.push(article);
-        await this.saveArticle(article);
+      if (outcome.status === 'saved') {
+        articles.push(outcome.article);
+      } else if (outcome.status === 'quarantined') {
+        this.quarantined.push(outcome.article);
+      }
+    }
 
-        console.log(`✅ Generated: ${article.title}`);
+    for (const { job, error } of result.failed) {
+      console.error(`❌ Failed to generate article for "${job.id}":`, error);
+    }
 
-        // 避免 API 限流
-        await this.delay(1000);
-      } catch (error) {
-        console.error(`❌ Failed to generate article for "${keywordData.keyword}":`, error);
-      }
+    if (result.stoppedBy) {
+      this.unprocessed = result.pending.map(job => job.data);
+      console.warn(`💸 ${result.stoppedBy.message}, stopping with ${this.unprocessed.length} keyword(s) unprocessed`);
     }
 
     // 生成索引文件
@@ -92,148 +262,701 @@ export class ArticleGenerator {
     return articles;
   }
 
+  /**
+   * 生成一篇文章并经过质量门禁和去重，通过的文章保存到 outputDir
+   */
+  private async processKeyword(keywordData: KeywordInput): Promise<GenerationOutcome> {
+    const { cluster } = keywordData;
+    const { article: generated, report, passed } = await generateWithQualityGate(
+      keywordData.keyword,
+      async () => {
+        const generated = await this.generateArticle(keywordData);
+        return cluster ? applyClusterContext(generated, cluster, this.getTemplate().language) : generated;
+      },
+      this.getTemplate(),
+      this.config.quality
+    );
+
+    if (!passed) {
+      quarantineArticle(this.config.outputDir, generated, report);
+      return { article: generated, status: 'quarantined' };
+    }
+
+    // 通过门禁后分配最终 slug：已注册的关键词沿用原 slug，新关键词避开已占用的 slug
+    this.slugs ??= createSlugService(this.config.outputDir, this.config.slugs);
+    const article = { ...generated, slug: this.slugs.assign(keywordData.keyword, generated.title) };
+
+    const duplicate = this.screen(article);
+    if (duplicate && this.config.dedupe?.onDuplicate !== 'warn') {
+      return { article, status: 'duplicate', duplicate };
+    }
+
+    saveArticle(this.config.outputDir, article);
+    saveProvenance(this.config.outputDir, buildProvenance(article, { provider: 'claude', runId: this.config.runId }));
+    console.log(`✅ Generated (score ${report.score}): ${article.title}`);
+
+    return { article, status: 'saved', duplicate };
+  }
+
   async generateArticle(keywordData: KeywordInput): Promise<GeneratedArticle> {
-    const prompt = this.buildPrompt(keywordData);
-
-    const message = await this.client.messages.create({
-      model: this.config.model || 'claude-3-5-sonnet-20241022',
-      max_tokens: 4096,
-      temperature: 0.7,
-      system: this.getSystemPrompt(),
-      messages: [
-        {
-          role: 'user',
-          content: prompt
-        }
-      ]
+    if (this.config.mode === 'multi-pass') {
+      return this.generateMultiPass(keywordData);
+    }
+
+    const { keyword } = keywordData;
+    const request = this.buildRequest(keywordData);
+    let result = await this.complete(request);
+    const passes = [toPass('draft', result)];
+    let output = parseArticleOutput(result.text, keyword);
+
+    // 自动修复后仍未通过校验时针对问题重新要求一次，仍失败则放弃这篇文章
+    if (!output.success) {
+      console.warn(`⚠️  Output for "${keyword}" failed validation (${output.issues.join('; ')}), re-prompting once`);
+
+      const repair = this.renderPrompt('article-gen.repair', keywordData, {
+        issues: output.issues.map(issue => `- ${issue}`).join('\n'),
+        output: result.text
+      });
+      result = await this.complete({
+        ...request,
+        prompt: repair.text,
+        prompts: mergePromptUsages(request.prompts || [], repair.templates)
+      });
+      passes.push(toPass('repair', result));
+      output = parseArticleOutput(result.text, keyword);
+
+      if (!output.success) {
+        throw new ArticleValidationError(keyword, output.issues);
+      }
+    }
+
+    const article = this.parseArticle(output, keyword);
+    article.metadata.prompts = result.prompts;
+    article.metadata.passes = passes;
+    article.metadata.stitched = passes.some(pass => pass.streams) || undefined;
+
+    return article;
+  }
+
+  /**
+   * 按改写说明更新已有文章，返回新的 Markdown 正文
+   */
+  async refreshArticle(request: RefreshRequest): Promise<string> {
+    const template = this.getTemplate();
+    const writer = this.renderPrompt('article-gen.writer', { keyword: request.keyword });
+    const { text } = await this.complete({
+      model: this.getModel(),
+      maxTokens: 4096,
+      system: writer.text,
+      prompts: writer.templates,
+      prompt: `请更新下面这篇关于"${request.keyword}"的文章《${request.title}》。
+
+改写说明：
+${request.brief}
+
+要求：
+- 语气：${template.tone}，语言：${template.language}
+- 保留原有的站内链接（Markdown 链接的地址不要改动）
+- 不要输出 frontmatter，只输出更新后的完整正文（Markdown 格式）
+
+原文：
+
+${request.markdown}`
     });
 
-    const content = message.content[0].type === 'text' ? message.content[0].text : '';
+    return text;
+  }
+
+  /**
+   * 上一次 generateAll 因预算用尽而未处理的关键词
+   */
+  getUnprocessedKeywords(): KeywordInput[] {
+    return this.unprocessed;
+  }
+
+  /**
+   * 上一次 generateAll 中未通过质量门禁而被隔离的文章
+   */
+  getQuarantinedArticles(): GeneratedArticle[] {
+    return this.quarantined;
+  }
+
+  /**
+   * 上一次 generateAll 中发现的近似重复（含建议保留的文章）
+   */
+  getDuplicates(): DuplicatePair[] {
+    return this.duplicates;
+  }
+
+  /**
+   * 构建请求但不发送
+   */
+  buildRequest(keywordData: KeywordInput): ArticleRequest {
+    const system = this.renderPrompt('article-gen.system', keywordData);
+    const prompt = this.renderPrompt('article-gen.article', keywordData);
 
-    return this.parseArticle(content, keywordData.keyword);
+    return {
+      model: this.getModel(),
+      maxTokens: 4096,
+      system: system.text,
+      prompt: prompt.text,
+      prompts: mergePromptUsages(system.templates, prompt.templates)
+    };
   }
 
-  private getSystemPrompt(): string {
-    return `你是一位专业的技术作家和 SEO 专家。你的任务是创建高质量、深度且搜索引擎友好的技术文章。
+  /**
+   * 一篇文章预计发出的全部请求（dry-run 估算成本用）
+   * multi-pass 的大纲尚未生成，按默认结构估算各小节，不含可能的修订调用
+   */
+  buildRequests(keywordData: KeywordInput): ArticleRequest[] {
+    if (this.config.mode !== 'multi-pass') {
+      return [this.buildRequest(keywordData)];
+    }
+
+    const sections: ArticleSection[] = ARTICLE_STRUCTURE.map(heading => ({ heading, markdown: `## ${heading}` }));
+
+    return [
+      this.buildOutlineRequest(keywordData),
+      ...sections.map((_, index) => this.buildSectionRequest(keywordData, keywordData.keyword, sections, index))
+    ];
+  }
+
+  /**
+   * multi-pass：大纲 → 逐节撰写 → 关键词位置检查 → 针对性修订
+   */
+  private async generateMultiPass(keywordData: KeywordInput): Promise<GeneratedArticle> {
+    const { keyword } = keywordData;
+    const passes: GenerationPass[] = [];
+
+    const outline = await this.complete(this.buildOutlineRequest(keywordData));
+    passes.push(toPass('outline', outline));
+
+    const { data: frontmatter, content: outlineMarkdown } = matter(outline.text);
+    const outlineSections = splitSections(outlineMarkdown).filter(section => section.heading);
+    if (outlineSections.length === 0) {
+      throw new Error(`Outline for "${keyword}" has no H2 sections`);
+    }
+
+    let title: string = frontmatter.title || keyword;
+    const sections: string[] = [];
+
+    for (const [index, section] of outlineSections.entries()) {
+      const result = await this.complete(this.buildSectionRequest(keywordData, title, outlineSections, index));
+      sections.push(result.text.trim());
+      passes.push(toPass('section', result, section.heading));
+    }
+
+    const issues = this.critique(title, sections, keyword, passes);
+
+    for (const issue of issues) {
+      title = await this.revise(issue, title, sections, keywordData, passes);
+    }
+
+    // 修订后再检查一次，结果留在记录中
+    if (issues.length > 0) {
+      this.critique(title, sections, keyword, passes);
+    }
+
+    const output = parseArticleOutput(matter.stringify(sections.join('\n\n'), { ...frontmatter, title }), keyword);
+    if (!output.success) {
+      throw new ArticleValidationError(keyword, output.issues);
+    }
+
+    const article = this.parseArticle(output, keyword);
+    article.metadata.passes = passes;
+    article.metadata.prompts = mergePromptUsages(...passes.map(pass => pass.prompts || []));
+    article.metadata.stitched = passes.some(pass => pass.streams) || undefined;
+
+    return article;
+  }
+
+  private buildOutlineRequest(keywordData: KeywordInput): ArticleRequest {
+    const { keyword } = keywordData;
+    const system = this.renderPrompt('article-gen.system', keywordData);
+
+    return {
+      model: this.getModel(),
+      maxTokens: OUTLINE_MAX_TOKENS,
+      system: system.text,
+      prompts: system.templates,
+      prompt: `请为关键词"${keyword}"的深度技术文章设计大纲，暂不撰写正文。
+
+文章结构：
+${ARTICLE_STRUCTURE.map((part, index) => `${index + 1}. ${part}`).join('\n')}
 
 要求：
-1. 内容必须原创、准确、有价值
-2. 包含实用的代码示例和最佳实践
-3. 结构清晰，使用恰当的标题层级
-4. 自然融入关键词，避免堆砌
-5. 目标 SEO 评分：90+
-
-输出格式（严格遵循）：
----
-title: 文章标题
-description: SEO 描述（150-160字符）
-keywords: 关键词1, 关键词2, 关键词3
-tags: 标签1, 标签2
-seo_score: 预估SEO分数
----
-
-# 文章内容（Markdown格式）`;
+- 按照输出格式给出 frontmatter，标题中包含关键词"${keyword}"
+- 每个结构部分对应一个 H2 小节（## 标题），标题要具体，至少 2 个标题自然包含关键词
+- 每个小节下用 2-4 个要点（以 - 开头）说明要写的内容
+- 只输出 frontmatter 和大纲`
+    };
   }
 
-  private buildPrompt(keywordData: KeywordInput): string {
-    const template = this.config.template || {
+  private buildSectionRequest(
+    keywordData: KeywordInput,
+    title: string,
+    sections: ArticleSection[],
+    index: number
+  ): ArticleRequest {
+    const { keyword } = keywordData;
+    const template = this.getTemplate();
+    const section = sections[index];
+    const points = section.markdown.split('\n').slice(1).join('\n').trim();
+    const rules = [
+      `约 ${Math.ceil(template.minWords / sections.length)} 字`,
+      `语气：${template.tone}，语言：${template.language}`,
+      `以 "## ${section.heading}" 开头，只输出本节内容，不要重复其他小节`,
+      index === 0 ? `第一段必须自然地包含关键词"${keyword}"` : '',
+      index === sections.length - 1 ? `本节必须包含关键词"${keyword}"` : '',
+      template.includeCodeExamples ? `如本节包含代码示例，代码注释中要包含关键词"${keyword}"` : ''
+    ].filter(Boolean);
+    const writer = this.renderPrompt('article-gen.writer', keywordData);
+
+    return {
+      model: this.getModel(),
+      maxTokens: SECTION_MAX_TOKENS,
+      system: writer.text,
+      prompts: writer.templates,
+      prompt: `文章标题：${title}
+关键词：${keyword}
+
+完整大纲：
+${sections.map((s, i) => `${i + 1}. ${s.heading}`).join('\n')}
+
+请撰写第 ${index + 1} 节「${section.heading}」${points ? `，要点：\n${points}` : ''}
+
+要求：
+${rules.map(rule => `- ${rule}`).join('\n')}`
+    };
+  }
+
+  /**
+   * 按 article-gen.article 模板的关键词规则检查当前稿件，返回未通过的规则
+   */
+  private critique(title: string, sections: string[], keyword: string, passes: GenerationPass[]): KeywordRuleResult[] {
+    const results = checkKeywordPlacement(title, sections.join('\n\n'), keyword, {
+      includeCodeExamples: this.getTemplate().includeCodeExamples
+    });
+    const failed = results.filter(result => !result.passed);
+
+    passes.push({ pass: 'critique', inputTokens: 0, outputTokens: 0, issues: failed.map(result => result.rule) });
+
+    return failed;
+  }
+
+  /**
+   * 针对一条未通过的规则修订标题或对应小节（就地修改 sections），返回修订后的标题
+   */
+  private async revise(
+    issue: KeywordRuleResult,
+    title: string,
+    sections: string[],
+    keywordData: KeywordInput,
+    passes: GenerationPass[]
+  ): Promise<string> {
+    const { keyword } = keywordData;
+    const writer = this.renderPrompt('article-gen.writer', keywordData);
+    const record = (result: CompletionResult) => passes.push(toPass('revision', result, issue.rule));
+
+    if (issue.rule === 'title') {
+      const result = await this.complete({
+        model: this.getModel(),
+        maxTokens: TITLE_MAX_TOKENS,
+        system: writer.text,
+        prompts: writer.templates,
+        prompt: `文章标题"${title}"没有包含关键词"${keyword}"。请给出一个自然包含该关键词、不超过 60 个字符的新标题，只输出标题本身。`
+      });
+      record(result);
+
+      return result.text.trim().split('\n')[0].replace(/^#+\s*/, '').replace(/^["“]|["”]$/g, '') || title;
+    }
+
+    if (issue.rule === 'headings') {
+      const headings = sections.map(section => section.split('\n')[0].replace(/^## /, ''));
+      const result = await this.complete({
+        model: this.getModel(),
+        maxTokens: HEADINGS_MAX_TOKENS,
+        system: writer.text,
+        prompts: writer.templates,
+        prompt: `以下是文章《${title}》的 H2 标题，只有不到 2 个包含关键词"${keyword}"。请改写这些标题，保持数量、顺序和含义不变，使至少 2 个标题自然包含关键词。每行输出一个标题，不要编号和其他内容。
+
+${headings.join('\n')}`
+      });
+      record(result);
+
+      const revised = result.text.split('\n').map(line => line.replace(/^#+\s*/, '').trim()).filter(Boolean);
+      if (revised.length === sections.length) {
+        revised.forEach((heading, index) => {
+          sections[index] = sections[index].replace(/^## .*$/m, `## ${heading}`);
+        });
+      } else {
+        console.warn(`⚠️  Heading revision returned ${revised.length} heading(s) for ${sections.length} section(s), keeping originals`);
+      }
+
+      return title;
+    }
+
+    const index = issue.rule === 'first-paragraph'
+      ? 0
+      : issue.rule === 'conclusion'
+        ? sections.length - 1
+        : sections.findIndex(section => section.includes('```'));
+
+    if (index === -1) {
+      return title;
+    }
+
+    const result = await this.complete({
+      model: this.getModel(),
+      maxTokens: SECTION_MAX_TOKENS,
+      system: writer.text,
+      prompts: writer.templates,
+      prompt: `下面是文章《${title}》中的一节。问题：${this.describeIssue(issue.rule, keyword)}。
+请在保持内容和结构不变的前提下修改本节来修复这个问题，只输出修改后的完整小节。
+
+${sections[index]}`
+    });
+    record(result);
+
+    // 修订结果缺少小节标题时保留原标题
+    const revised = result.text.trim();
+    sections[index] = revised.startsWith('## ') ? revised : `${sections[index].split('\n')[0]}\n\n${revised}`;
+
+    return title;
+  }
+
+  private describeIssue(rule: KeywordRule, keyword: string): string {
+    const descriptions: Record<KeywordRule, string> = {
+      'title': `标题中没有关键词"${keyword}"`,
+      'first-paragraph': `第一段中没有出现关键词"${keyword}"`,
+      'headings': `少于 2 个 H2/H3 标题包含关键词"${keyword}"`,
+      'code-comments': `代码注释中没有出现关键词"${keyword}"`,
+      'conclusion': `结论中没有出现关键词"${keyword}"`
+    };
+
+    return descriptions[rule];
+  }
+
+  /**
+   * 流式发送一次请求：部分输出边接收边保存，流断开时从最后一个完整小节续写
+   */
+  private async complete(request: ArticleRequest): Promise<CompletionResult> {
+    const promptHash = hashPrompt(request.system, request.prompt);
+    const usage = { inputTokens: 0, outputTokens: 0 };
+
+    const { text, streams } = await streamWithRecovery(
+      promptHash.slice(0, 16),
+      resume => this.stream(request, usage, resume),
+      { ...this.getStreamOptions(), isFatal: isBudgetError }
+    );
+
+    return {
+      text,
+      model: request.model,
+      temperature: TEMPERATURE,
+      promptHash,
+      streams,
+      ...usage,
+      prompts: request.prompts
+    };
+  }
+
+  /**
+   * 一段流：调用前预留预算，结束或断开后把 token 用量累加到 usage 并记账
+   * resume 作为助手回复的开头发送，模型从这里接着写
+   */
+  private async *stream(
+    request: ArticleRequest,
+    usage: { inputTokens: number; outputTokens: number },
+    resume?: string
+  ): AsyncGenerator<string> {
+    const { budget } = this.config;
+    const promptTokens = estimateTokens(request.system) + estimateTokens(request.prompt) + estimateTokens(resume || '');
+
+    const reservation = budget?.reserve(budget.estimate(request.model, promptTokens, request.maxTokens));
+
+    let started = false;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let received = '';
+
+    try {
+      const stream = await this.client.messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: TEMPERATURE,
+        system: request.system,
+        messages: [
+          {
+            role: 'user',
+            content: request.prompt
+          },
+          ...(resume ? [{ role: 'assistant' as const, content: resume }] : [])
+        ],
+        stream: true
+      });
+      started = true;
+
+      for await (const event of stream) {
+        if (event.type === 'message_start') {
+          inputTokens = event.message.usage.input_tokens;
+        } else if (event.type === 'message_delta') {
+          outputTokens = event.usage.output_tokens;
+        } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          received += event.delta.text;
+          yield event.delta.text;
+        }
+      }
+    } finally {
+      // 断开的流拿不到最终用量，按已收到的文本估算；请求未发出时只释放预留
+      const used = started
+        ? { model: request.model, inputTokens: inputTokens || promptTokens, outputTokens: outputTokens || estimateTokens(received) }
+        : undefined;
+      if (used) {
+        usage.inputTokens += used.inputTokens;
+        usage.outputTokens += used.outputTokens;
+      }
+      if (budget && reservation) {
+        budget.settle(reservation, used, 'article-gen');
+      }
+    }
+  }
+
+  /**
+   * 部分输出默认保存在 <outputDir>/partial（ContentGenerator 内部的生成器不设置 outputDir，由其传入目录）
+   */
+  private getStreamOptions(): StreamRecoveryOptions {
+    return {
+      partialDir: this.config.outputDir ? join(this.config.outputDir, 'partial') : undefined,
+      ...this.config.stream
+    };
+  }
+
+  private getModel(): string {
+    return this.config.model || 'claude-3-5-sonnet-20241022';
+  }
+
+  private getTemplate(): ArticleTemplate {
+    return this.config.template || {
       minWords: 1500,
       includeCodeExamples: true,
       includeImages: true,
       tone: 'technical',
       language: 'zh-CN'
     };
-
-    return `请围绕关键词"${keywordData.keyword}"撰写一篇深度技术文章。
-
-要求：
-- 字数：${template.minWords}+
-- 包含代码示例：${template.includeCodeExamples ? '是' : '否'}
-- 语气：${template.tone}
-- 语言：${template.language}
-- 目标受众：开发者和技术人员
-
-文章结构：
-1. 引人入胜的导语
-2. 问题背景和重要性
-3. 核心概念解析
-4. 实战代码示例${template.includeCodeExamples ? '（至少3个）' : ''}
-5. 最佳实践和注意事项
-6. 总结和延伸阅读
-
-关键词"${keywordData.keyword}"应自然出现在：
-- 标题中
-- 第一段中
-- 至少2个H2/H3标题中
-- 代码注释中
-- 结论中`;
   }
 
-  private parseArticle(content: string, keyword: string): GeneratedArticle {
-    const { data: frontmatter, content: markdown } = matter(content);
+  /**
+   * 渲染提示词模板，变量来自文章模板配置和关键词（niche 决定是否使用领域覆盖）
+   */
+  private renderPrompt(id: string, keywordData: Partial<KeywordInput>, extra: PromptVariables = {}): RenderedPrompt {
+    const template = this.getTemplate();
+
+    return this.prompts.render(id, {
+      ...extra,
+      ...clusterPromptVariables(keywordData.cluster, template.language),
+      keyword: keywordData.keyword,
+      volume: keywordData.volume,
+      difficulty: keywordData.difficulty,
+      niche: keywordData.niche,
+      minWords: template.minWords,
+      includeCodeExamples: template.includeCodeExamples,
+      includeImages: template.includeImages,
+      tone: template.tone,
+      language: template.language
+    });
+  }
 
-    const slug = this.generateSlug(frontmatter.title || keyword);
-    const wordCount = this.countWords(markdown);
+  private parseArticle(output: Extract<ArticleOutputResult, { success: true }>, keyword: string): GeneratedArticle {
+    const { frontmatter, content: markdown, repairs } = output;
 
-    return {
-      slug,
-      title: frontmatter.title || keyword,
+    const article: GeneratedArticle = {
+      slug: slugify(frontmatter.title, this.config.slugs),
+      title: frontmatter.title,
       content: markdown,
-      frontmatter: {
-        title: frontmatter.title || keyword,
-        description: frontmatter.description || '',
-        keywords: frontmatter.keywords?.split(',').map((k: string) => k.trim()) || [keyword],
-        date: frontmatter.date || new Date().toISOString().split('T')[0],
-        author: frontmatter.author || 'AI Author',
-        tags: frontmatter.tags?.split(',').map((t: string) => t.trim()) || [],
-        seoScore: frontmatter.seo_score || 90
-      },
+      frontmatter: { ...frontmatter, seoScore: 0 },
       metadata: {
         keyword,
-        wordCount,
+        wordCount: countWords(markdown),
         generatedAt: new Date().toISOString(),
-        model: this.config.model || 'claude-3-5-sonnet-20241022'
+        model: this.getModel(),
+        repairs: repairs.length > 0 ? repairs : undefined
       }
     };
-  }
-
-  private generateSlug(title: string): string {
-    return title
-      .toLowerCase()
-      .replace(/[^\w\s-]/g, '')
-      .replace(/\s+/g, '-')
-      .replace(/-+/g, '-')
-      .trim();
-  }
 
-  private countWords(content: string): number {
-    // 移除代码块后统计字数
-    const cleanContent = content.replace(/```[\s\S]*?```/g, '');
-    return cleanContent.split(/\s+/).length;
+    // 评分由本地分析得出，不采信模型自报的分数
+    return applyQualityReport(article, analyzeArticle(article, keyword, this.getTemplate()));
   }
 
-  private async saveArticle(article: GeneratedArticle): Promise<void> {
-    const outputDir = join(process.cwd(), this.config.outputDir, 'articles');
-    mkdirSync(outputDir, { recursive: true });
+  /**
+   * 开启去重时与已有文章比较，重复时返回最相似的一对
+   */
+  private screen(article: GeneratedArticle): DuplicatePair | undefined {
+    const { dedupe, outputDir } = this.config;
+    if (!dedupe) {
+      return undefined;
+    }
 
-    const filePath = join(outputDir, `${article.slug}.md`);
-    const fullContent = matter.stringify(article.content, article.frontmatter);
+    this.detector ??= createDuplicateDetector(outputDir, dedupe);
 
-    writeFileSync(filePath, fullContent);
-    console.log(`💾 Saved: ${filePath}`);
+    return screenArticle(this.detector, article, dedupe);
   }
 
   private async generateIndex(articles: GeneratedArticle[]): Promise<void> {
-    const indexPath = join(process.cwd(), this.config.outputDir, 'index.json');
-    writeFileSync(indexPath, JSON.stringify(articles, null, 2));
-    console.log(`📇 Generated index: ${indexPath}`);
+    writeArticleIndex(this.config.outputDir, articles);
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
+/**
+ * 一次模型调用的记录
+ */
+function toPass(pass: GenerationPass['pass'], result: CompletionResult, target?: string): GenerationPass {
+  return {
+    pass,
+    target,
+    model: result.model,
+    temperature: result.temperature,
+    promptHash: result.promptHash,
+    streams: result.streams > 1 ? result.streams : undefined,
+    inputTokens: result.inputTokens,
+    outputTokens: result.outputTokens,
+    prompts: result.prompts
+  };
+}
+
+/**
+ * 保存文章到 <outputDir>/articles/<slug>.md
+ */
+export function saveArticle(outputDir: string, article: GeneratedArticle): string {
+  const articlesDir = join(process.cwd(), outputDir, 'articles');
+  mkdirSync(articlesDir, { recursive: true });
+
+  const filePath = join(articlesDir, `${article.slug}.md`);
+  const fullContent = matter.stringify(article.content, article.frontmatter);
+
+  writeFileSync(filePath, fullContent);
+  console.log(`💾 Saved: ${filePath}`);
+
+  return filePath;
+}
+
+/**
+ * 生成 <outputDir>/index.json 文章索引
+ */
+export function writeArticleIndex(outputDir: string, articles: GeneratedArticle[]): string {
+  const indexPath = join(process.cwd(), outputDir, 'index.json');
+  writeFileSync(indexPath, JSON.stringify(articles, null, 2));
+  console.log(`📇 Generated index: ${indexPath}`);
+
+  return indexPath;
+}
+
+export type { StreamRecoveryOptions } from '@seo-spy/llm-stream';
+export { postFrontmatterSchema, type PostFrontmatter } from './schema.js';
+export {
+  checkKeywordPlacement,
+  splitSections,
+  type ArticleSection,
+  type KeywordRule,
+  type KeywordRuleResult
+} from './keyword-rules.js';
+export {
+  analyzeArticle,
+  applyQualityReport,
+  countWords,
+  generateWithQualityGate,
+  quarantineArticle,
+  type QualityCheck,
+  type QualityCheckName,
+  type QualityGateConfig,
+  type QualityGateResult,
+  type QualityReport
+} from './quality.js';
+export {
+  DEFAULT_CONTENT_DIRS,
+  DuplicateDetector,
+  createDuplicateDetector,
+  loadDedupeDocuments,
+  screenArticle,
+  suggestCanonical,
+  toDedupeDocument,
+  type DedupeConfig,
+  type DedupeDocument,
+  type DetectorOptions,
+  type DuplicatePair,
+  type SimilarityMatch
+} from './dedupe.js';
+export {
+  applyRefresh,
+  backupArticle,
+  buildRefreshBrief,
+  findInternalLinks,
+  listArticleVersions,
+  loadRankingHistory,
+  revertArticle,
+  selectRefreshCandidates,
+  type ArticleVersion,
+  type RefreshCandidate,
+  type RefreshCriteria,
+  type RefreshRequest
+} from './refresh.js';
+export {
+  ArticleValidationError,
+  parseArticleOutput,
+  type ArticleFrontmatter,
+  type ArticleOutputResult,
+  type OutputRepair
+} from './output.js';
+export {
+  checkArticleCode,
+  checkSnippet,
+  extractCodeBlocks,
+  formatDiagnostic,
+  quarantineCodeFailure,
+  verifyArticleCode,
+  type CodeBlock,
+  type CodeCheckMode,
+  type CodeCheckOptions,
+  type CodeCheckReport,
+  type CodeDiagnostic,
+  type CodeFixer,
+  type CodeLanguage,
+  type SnippetResult
+} from './code-check.js';
+export { applyClusterContext, clusterPromptVariables, type ClusterContext } from './cluster.js';
+export {
+  SlugService,
+  createSlugService,
+  slugify,
+  type SlugOptions,
+  type SlugRecord,
+  type SlugRegistry,
+  type SlugServiceConfig
+} from './slug.js';
+export {
+  buildProvenance,
+  loadProvenance,
+  recordRevision,
+  saveProvenance,
+  type ProvenanceContext,
+  type ProvenanceRecord,
+  type ProvenanceRevision
+} from './provenance.js';
+export {
+  applyStructuredData,
+  describeStructuredData,
+  extractStructuredData,
+  hasStructuredData,
+  withStructuredData,
+  type CodeSample,
+  type FaqItem,
+  type HowTo,
+  type HowToStep,
+  type StructuredData,
+  type StructuredDataOptions
+} from './structured.js';
+
 // CLI 入口
 if (import.meta.url === `file://${process.argv[1]}`) {
   const apiKey = process.env.ANTHROPIC_API_KEY || '';
@@ -243,33 +966,49 @@ if (import.meta.url === `file://${process.argv[1]}`) {
     process.exit(1);
   }
 
-  // 读取关键词文件
+  // 与流水线的文章阶段一样读取 CONFIG_PATH 或 pipeline.config.json 中的 articles 配置
+  const configPath = process.env.CONFIG_PATH || join(process.cwd(), 'pipeline.config.json');
+  if (!existsSync(configPath)) {
+    console.error(`❌ Pipeline config not found: ${configPath}`);
+    process.exit(1);
+  }
+
+  const pipeline = JSON.parse(readFileSync(configPath, 'utf-8')) as {
+    keywords: { niches: string[] };
+    articles: Partial<ArticleTemplate> & Pick<ArticleGenConfig, 'mode' | 'quality' | 'dedupe' | 'slugs' | 'stream'> & {
+      count: number;
+      provider?: string;
+      model?: string;
+    };
+  };
+  const { articles } = pipeline;
+
+  // 关键词来自最近一次爬取结果，没有时用领域名；数量取 articles.count
   const keywordsPath = join(process.cwd(), 'data/keywords/keywords-latest.json');
-  let keywords: KeywordInput[] = [];
-
-  try {
-    const data = readFileSync(keywordsPath, 'utf-8');
-    keywords = JSON.parse(data).slice(0, 10); // 取前10个关键词测试
-  } catch (error) {
-    console.warn('⚠️  No keywords file found, using defaults');
-    keywords = [
-      { keyword: 'React useEffect 依赖报警告', volume: 5000, difficulty: 30 },
-      { keyword: 'TypeScript 类型推断失败', volume: 3500, difficulty: 45 },
-      { keyword: 'Astro SSG 构建优化', volume: 2000, difficulty: 25 }
-    ];
+  const candidates: KeywordInput[] = existsSync(keywordsPath)
+    ? JSON.parse(readFileSync(keywordsPath, 'utf-8'))
+    : pipeline.keywords.niches.map(keyword => ({ keyword, volume: 0, difficulty: 0 }));
+  if (!existsSync(keywordsPath)) {
+    console.warn('⚠️  No keywords file found, using the configured niches');
   }
 
   const config: ArticleGenConfig = {
     apiKey,
-    model: 'claude-3-5-sonnet-20241022',
+    // articles.model 只在提供方为 claude 时适用
+    model: (articles.provider || 'claude') === 'claude' ? articles.model : undefined,
     outputDir: './data',
-    keywords,
+    keywords: candidates.slice(0, articles.count),
+    mode: articles.mode,
+    quality: articles.quality,
+    dedupe: articles.dedupe,
+    slugs: articles.slugs,
+    stream: articles.stream,
     template: {
-      minWords: 1500,
-      includeCodeExamples: true,
-      includeImages: true,
-      tone: 'technical',
-      language: 'zh-CN'
+      minWords: articles.minWords ?? 1500,
+      includeCodeExamples: articles.includeCodeExamples ?? true,
+      includeImages: articles.includeImages ?? true,
+      tone: articles.tone || 'technical',
+      language: articles.language || 'zh-CN'
     }
   };
 
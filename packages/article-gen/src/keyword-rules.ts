@@ -0,0 +1,78 @@
+/**
+ * Keyword Placement Rules
+ * 关键词位置检查 - 对应 buildPrompt 中"关键词应自然出现在"的各项要求
+ */
+
+export type KeywordRule = 'title' | 'first-paragraph' | 'headings' | 'code-comments' | 'conclusion';
+
+export interface KeywordRuleResult {
+  rule: KeywordRule;
+  passed: boolean;
+  message: string;
+}
+
+export interface ArticleSection {
+  heading: string;
+  // 含 "## 标题" 行的完整 Markdown
+  markdown: string;
+}
+
+/**
+ * 按 H2 拆分正文，H2 之前的内容（如有）视为第一节
+ */
+export function splitSections(markdown: string): ArticleSection[] {
+  return markdown
+    .split(/^(?=## )/m)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => ({
+      heading: part.startsWith('## ') ? part.split('\n')[0].slice(3).trim() : '',
+      markdown: part
+    }));
+}
+
+export function checkKeywordPlacement(
+  title: string,
+  markdown: string,
+  keyword: string,
+  options: { includeCodeExamples: boolean }
+): KeywordRuleResult[] {
+  const contains = (text: string) => text.toLowerCase().includes(keyword.toLowerCase());
+  const sections = splitSections(markdown);
+
+  // 第一段：第一个非标题、非代码的文本块
+  const firstParagraph = markdown
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .find(block => block && !block.startsWith('#') && !block.startsWith('```')) || '';
+
+  const headings = markdown.match(/^#{2,3} .+$/gm) || [];
+  const keywordHeadings = headings.filter(contains).length;
+
+  const codeComments = (markdown.match(/```[\s\S]*?```/g) || [])
+    .flatMap(block => block.split('\n'))
+    .filter(line => /^\s*(\/\/|#|\/\*|\*|<!--|--)/.test(line));
+
+  const conclusion = sections[sections.length - 1]?.markdown || '';
+
+  const results: KeywordRuleResult[] = [
+    { rule: 'title', passed: contains(title), message: 'keyword missing from the title' },
+    { rule: 'first-paragraph', passed: contains(firstParagraph), message: 'keyword missing from the first paragraph' },
+    {
+      rule: 'headings',
+      passed: keywordHeadings >= 2,
+      message: `keyword appears in ${keywordHeadings} H2/H3 heading(s), at least 2 required`
+    },
+    { rule: 'conclusion', passed: contains(conclusion), message: 'keyword missing from the conclusion' }
+  ];
+
+  if (options.includeCodeExamples) {
+    results.splice(3, 0, {
+      rule: 'code-comments',
+      passed: codeComments.some(contains),
+      message: 'keyword missing from code comments'
+    });
+  }
+
+  return results;
+}
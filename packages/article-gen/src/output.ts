@@ -0,0 +1,234 @@
+/**
+ * Structured Output Parsing
+ * 模型输出解析：先修复常见的格式偏差，再按 posts 集合的 frontmatter 模式校验
+ */
+
+import matter from 'gray-matter';
+import { z } from 'zod';
+import { AppError } from '@seo-spy/error-handler';
+import { postFrontmatterSchema } from './schema.js';
+import type { GeneratedArticle } from './index.js';
+
+/**
+ * 自动修复的偏差：
+ * code-fence 整个回答包在代码块中；preamble frontmatter 前有说明文字；yaml frontmatter 不是合法 YAML（如标题含冒号）；
+ * list 关键词 / 标签写成 YAML 列表或用中文逗号分隔；heading 正文重复了 H1 标题；description / keywords 缺失；date 无法解析
+ */
+export type OutputRepair = 'code-fence' | 'preamble' | 'yaml' | 'list' | 'heading' | 'description' | 'keywords' | 'date';
+
+export type ArticleFrontmatter = Omit<GeneratedArticle['frontmatter'], 'seoScore'>;
+
+export type ArticleOutputResult =
+  | { success: true; frontmatter: ArticleFrontmatter; content: string; repairs: OutputRepair[] }
+  | { success: false; issues: string[]; repairs: OutputRepair[] };
+
+export class ArticleValidationError extends AppError {
+  public readonly issues: string[];
+
+  constructor(keyword: string, issues: string[]) {
+    super(`Article output for "${keyword}" failed validation: ${issues.join('; ')}`, {
+      category: 'validation',
+      severity: 'medium',
+      code: 'ARTICLE_OUTPUT_INVALID',
+      retryable: false,
+      keyword,
+      issues
+    });
+    this.name = 'ArticleValidationError';
+    this.issues = issues;
+  }
+}
+
+// 模型负责的字段，比 posts 集合更严格：标题、描述和关键词不能为空
+const outputSchema = postFrontmatterSchema
+  .pick({ title: true, description: true, keywords: true, tags: true, author: true })
+  .extend({
+    title: z.string().trim().min(1, 'is required'),
+    description: z.string().trim().min(1, 'is required'),
+    keywords: z.array(z.string().trim().min(1)).min(1, 'needs at least one keyword'),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be YYYY-MM-DD')
+  });
+
+const WRAPPING_FENCE = /^```[\w-]*[ \t]*\n([\s\S]*?)\n```$/;
+// 前言之后整篇文章包在代码块中
+const TRAILING_FENCE = /\n```[\w-]*[ \t]*\n(---[ \t]*\n[\s\S]*?)\n```$/;
+const FRONTMATTER_BLOCK = /^---[ \t]*\n([\s\S]*?)\n---[ \t]*(?:\n|$)/;
+// 逗号、中文逗号、顿号
+const LIST_SEPARATOR = /[,，、]/;
+const DESCRIPTION_MAX_LENGTH = 155;
+
+/**
+ * 解析 "frontmatter + Markdown 正文" 格式的模型输出
+ */
+export function parseArticleOutput(text: string, keyword: string): ArticleOutputResult {
+  const repairs: OutputRepair[] = [];
+  let source = text.trim();
+
+  const fenced = source.match(WRAPPING_FENCE) || source.match(TRAILING_FENCE);
+  if (fenced) {
+    source = fenced[1].trim();
+    repairs.push('code-fence');
+  }
+
+  // "好的，以下是文章：" 之类的前言
+  if (!source.startsWith('---')) {
+    const start = source.search(/^---[ \t]*\n(?=[\s\S]*?^title\s*:)/m);
+    if (start > 0) {
+      source = source.slice(start);
+      repairs.push('preamble');
+    }
+  }
+
+  let data: Record<string, unknown> = {};
+  let content = source;
+  const block = source.match(FRONTMATTER_BLOCK);
+
+  if (block) {
+    content = source.slice(block[0].length);
+    try {
+      data = matter(source).data;
+    } catch {
+      data = parseLooseFrontmatter(block[1]);
+      repairs.push('yaml');
+    }
+  }
+
+  // 正文以 H1 开头时去掉，标题缺失时用它补上
+  const heading = content.match(/^\s*#[ \t]+(.+?)[ \t]*(?:\n|$)/);
+  if (heading) {
+    content = content.slice(heading[0].length);
+    data.title ??= heading[1];
+    repairs.push('heading');
+  }
+
+  const keywords = normalizeList(data.keywords, repairs);
+  const tags = normalizeList(data.tags, repairs);
+
+  if (keywords.length === 0) {
+    keywords.push(keyword);
+    repairs.push('keywords');
+  }
+
+  let description = typeof data.description === 'string' ? data.description.trim() : '';
+  if (!description) {
+    description = extractDescription(content);
+    if (description) {
+      repairs.push('description');
+    }
+  }
+
+  const today = new Date().toISOString().split('T')[0];
+  let date = formatDate(data.date);
+  if (data.date !== undefined && !date) {
+    repairs.push('date');
+  }
+  date ||= today;
+
+  const frontmatter: ArticleFrontmatter = {
+    title: typeof data.title === 'string' || typeof data.title === 'number' ? String(data.title).trim() : '',
+    description,
+    keywords,
+    date,
+    author: typeof data.author === 'string' && data.author.trim() ? data.author.trim() : 'AI Author',
+    tags
+  };
+
+  const result = outputSchema.safeParse(frontmatter);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map(issue => `${issue.path.join('.') || 'frontmatter'}: ${issue.message}`),
+      repairs: [...new Set(repairs)]
+    };
+  }
+
+  return { success: true, frontmatter, content, repairs: [...new Set(repairs)] };
+}
+
+/**
+ * 逐行解析 key: value 和 "- item" 列表，用于 YAML 解析失败的 frontmatter
+ */
+function parseLooseFrontmatter(block: string): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  let listKey: string | undefined;
+
+  for (const line of block.split('\n')) {
+    const item = line.match(/^\s+-\s+(.*)$/) || (listKey ? line.match(/^-\s+(.*)$/) : null);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z][\w-]*)\s*:\s*(.*)$/);
+    if (!pair) {
+      continue;
+    }
+
+    if (pair[2].trim() === '') {
+      listKey = pair[1];
+      data[listKey] = [];
+    } else {
+      listKey = undefined;
+      data[pair[1]] = unquote(pair[2]);
+    }
+  }
+
+  return data;
+}
+
+/**
+ * 逗号分隔字符串或列表 → 去空、去重的字符串数组；YAML 列表或非英文逗号记为 list 修复
+ */
+function normalizeList(value: unknown, repairs: OutputRepair[]): string[] {
+  let items: string[];
+
+  if (Array.isArray(value)) {
+    items = value.map(item => String(item));
+    repairs.push('list');
+  } else if (typeof value === 'string') {
+    const inline = value.trim().match(/^\[(.*)\]$/);
+    items = (inline ? inline[1] : value).split(LIST_SEPARATOR);
+    if (inline || /[，、]/.test(value)) {
+      repairs.push('list');
+    }
+  } else {
+    return [];
+  }
+
+  return [...new Set(items.map(item => unquote(item)).filter(Boolean))];
+}
+
+/**
+ * 取正文第一个普通段落的纯文本作为描述
+ */
+function extractDescription(content: string): string {
+  const paragraph = content
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .find(block => block && !/^(#|```|[-*+]\s|\d+\.\s|>|\||!\[)/.test(block));
+
+  if (!paragraph) {
+    return '';
+  }
+
+  const text = paragraph
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return text.length > DESCRIPTION_MAX_LENGTH ? text.slice(0, DESCRIPTION_MAX_LENGTH) : text;
+}
+
+function formatDate(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const date = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString().split('T')[0];
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, '$2').trim();
+}
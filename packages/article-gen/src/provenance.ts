@@ -0,0 +1,132 @@
+/**
+ * Generation Provenance
+ * 生成溯源 - 每篇文章保存一份 <outputDir>/provenance/<slug>.json，记录提供方、模型、提示词模板版本、
+ * 完整提示词哈希、温度、token 用量、每一轮调用和流水线运行 ID；之后的改写追加到同一文件
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { PromptUsage } from '@seo-spy/prompts';
+import type { GeneratedArticle, GenerationPass } from './index.js';
+import type { OutputRepair } from './output.js';
+
+export interface ProvenanceContext {
+  provider: string;
+  runId?: string;
+}
+
+/**
+ * 生成之后对正文的修改（refresh 改写、code-verification 修正代码块）
+ */
+export interface ProvenanceRevision {
+  kind: 'refresh' | 'code-fix';
+  at: string;
+  provider?: string;
+  model?: string;
+  runId?: string;
+  // refresh 前保存的版本 ID，或修正的代码块数量等说明
+  note?: string;
+}
+
+export interface ProvenanceRecord {
+  version: 1;
+  slug: string;
+  keyword: string;
+  title: string;
+  provider: string;
+  model: string;
+  runId?: string;
+  generatedAt: string;
+  // 提示词模板版本
+  prompts: PromptUsage[];
+  // 第一次调用的完整提示词哈希，每一轮的哈希见 passes
+  promptHash?: string;
+  temperature?: number;
+  usage: {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+  };
+  passes: GenerationPass[];
+  // 有调用中途断开、由多段流续写拼成
+  stitched?: boolean;
+  repairs?: OutputRepair[];
+  seoScore: number;
+  revisions: ProvenanceRevision[];
+  // 同一 slug 重新生成前的记录，最早的在前
+  previous?: Omit<ProvenanceRecord, 'previous'>[];
+}
+
+export function buildProvenance(article: GeneratedArticle, context: ProvenanceContext): ProvenanceRecord {
+  const { metadata } = article;
+  const passes = metadata.passes || [];
+  // critique 是本地检查，不计入请求数
+  const calls = passes.filter(pass => pass.promptHash);
+
+  return {
+    version: 1,
+    slug: article.slug,
+    keyword: metadata.keyword,
+    title: article.title,
+    provider: context.provider,
+    model: metadata.model,
+    runId: context.runId,
+    generatedAt: metadata.generatedAt,
+    prompts: metadata.prompts || [],
+    promptHash: calls[0]?.promptHash,
+    temperature: calls[0]?.temperature,
+    usage: {
+      requests: calls.length,
+      inputTokens: passes.reduce((total, pass) => total + pass.inputTokens, 0),
+      outputTokens: passes.reduce((total, pass) => total + pass.outputTokens, 0)
+    },
+    passes,
+    stitched: metadata.stitched,
+    repairs: metadata.repairs,
+    seoScore: article.frontmatter.seoScore,
+    revisions: []
+  };
+}
+
+/**
+ * 保存溯源记录；同一 slug 已有记录时（重新生成）把旧记录移到 previous 中
+ */
+export function saveProvenance(outputDir: string, record: ProvenanceRecord): string {
+  const dir = join(process.cwd(), outputDir, 'provenance');
+  mkdirSync(dir, { recursive: true });
+
+  const existing = loadProvenance(outputDir, record.slug);
+  if (existing) {
+    const { previous = [], ...prior } = existing;
+    record = { ...record, previous: [...previous, prior] };
+  }
+
+  const filePath = join(dir, `${record.slug}.json`);
+  writeFileSync(filePath, JSON.stringify(record, null, 2));
+
+  return filePath;
+}
+
+export function loadProvenance(outputDir: string, slug: string): ProvenanceRecord | undefined {
+  const filePath = join(process.cwd(), outputDir, 'provenance', `${slug}.json`);
+  if (!existsSync(filePath)) {
+    return undefined;
+  }
+
+  return JSON.parse(readFileSync(filePath, 'utf-8')) as ProvenanceRecord;
+}
+
+/**
+ * 追加一次改写记录，没有溯源记录的文章（如手写文章）返回 false
+ */
+export function recordRevision(outputDir: string, slug: string, revision: ProvenanceRevision): boolean {
+  const record = loadProvenance(outputDir, slug);
+  if (!record) {
+    return false;
+  }
+
+  record.revisions.push(revision);
+  writeFileSync(join(process.cwd(), outputDir, 'provenance', `${slug}.json`), JSON.stringify(record, null, 2));
+
+  return true;
+}
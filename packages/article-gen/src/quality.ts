@@ -0,0 +1,299 @@
+/**
+ * Article Quality Analyzer
+ * 文章质量分析 - 在本地计算 SEO 评分（不采信模型自报的 seo_score），低于阈值的文章重新生成或隔离
+ */
+
+import { writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import matter from 'gray-matter';
+import { checkKeywordPlacement } from './keyword-rules.js';
+import type { ArticleTemplate, GeneratedArticle } from './index.js';
+
+export type QualityCheckName =
+  | 'word-count'
+  | 'keyword-density'
+  | 'keyword-in-title'
+  | 'keyword-in-first-paragraph'
+  | 'keyword-in-headings'
+  | 'heading-hierarchy'
+  | 'description-length'
+  | 'code-blocks'
+  | 'readability';
+
+export interface QualityCheck {
+  name: QualityCheckName;
+  // 0-1，部分满足时取中间值
+  score: number;
+  weight: number;
+  message: string;
+}
+
+export interface QualityReport {
+  // 0-100，各项加权
+  score: number;
+  wordCount: number;
+  // 关键词占正文字数的比例（0-1）
+  keywordDensity: number;
+  checks: QualityCheck[];
+}
+
+export interface QualityGateConfig {
+  // 低于此分数的文章不保存
+  minScore: number;
+  // regenerate：重新生成，用尽次数后隔离；quarantine：直接隔离
+  onFail: 'regenerate' | 'quarantine';
+  // regenerate 时最多生成几次（含第一次），默认 2
+  maxAttempts?: number;
+}
+
+export interface QualityGateResult {
+  // 未通过时为得分最高的一次
+  article: GeneratedArticle;
+  report: QualityReport;
+  attempts: number;
+  passed: boolean;
+}
+
+type QualityOptions = Pick<ArticleTemplate, 'minWords' | 'includeCodeExamples' | 'language'>;
+
+const CJK = /[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+
+// 关键词密度的理想区间
+const DENSITY_RANGE = { min: 0.005, max: 0.025 };
+
+// meta description 的理想长度（字符）
+const DESCRIPTION_LENGTH = {
+  'zh-CN': { min: 60, max: 160 },
+  'en-US': { min: 120, max: 160 }
+};
+
+// 可读性：平均句长与单段长度上限（中文按字、英文按词）
+const READABILITY_LIMITS = {
+  'zh-CN': { sentence: 50, paragraph: 200 },
+  'en-US': { sentence: 20, paragraph: 120 }
+};
+
+/**
+ * 字数：移除代码块后，中日韩字符按字计，其余按空白分词
+ */
+export function countWords(text: string): number {
+  const prose = text.replace(/```[\s\S]*?```/g, '');
+  const cjk = prose.match(CJK)?.length || 0;
+  const words = prose.replace(CJK, ' ').split(/\s+/).filter(Boolean).length;
+  return cjk + words;
+}
+
+export function analyzeArticle(
+  article: Pick<GeneratedArticle, 'title' | 'content' | 'frontmatter'>,
+  keyword: string,
+  options: QualityOptions
+): QualityReport {
+  const { content } = article;
+  const prose = content.replace(/```[\s\S]*?```/g, '');
+  const wordCount = countWords(content);
+  const keywordDensity = wordCount > 0 ? countOccurrences(prose, keyword) * countWords(keyword) / wordCount : 0;
+  const placement = checkKeywordPlacement(article.title, content, keyword, { includeCodeExamples: false });
+  const placed = (rule: string) => placement.find(result => result.rule === rule)?.passed ? 1 : 0;
+
+  const checks: QualityCheck[] = [
+    {
+      name: 'word-count',
+      score: Math.min(1, wordCount / options.minWords),
+      weight: 10,
+      message: `${wordCount} words, ${options.minWords} required`
+    },
+    {
+      name: 'keyword-density',
+      score: scoreRange(keywordDensity, DENSITY_RANGE.min, DENSITY_RANGE.max),
+      weight: 15,
+      message: `keyword density ${(keywordDensity * 100).toFixed(2)}%, ` +
+        `${DENSITY_RANGE.min * 100}-${DENSITY_RANGE.max * 100}% expected`
+    },
+    {
+      name: 'keyword-in-title',
+      score: placed('title'),
+      weight: 15,
+      message: placed('title') ? 'keyword in title' : 'keyword missing from the title'
+    },
+    {
+      name: 'keyword-in-first-paragraph',
+      score: placed('first-paragraph'),
+      weight: 10,
+      message: placed('first-paragraph') ? 'keyword in first paragraph' : 'keyword missing from the first paragraph'
+    },
+    {
+      name: 'keyword-in-headings',
+      score: placed('headings'),
+      weight: 10,
+      message: placement.find(result => result.rule === 'headings')?.message || ''
+    },
+    checkHeadingHierarchy(content),
+    checkDescription(article.frontmatter.description, options.language),
+    ...(options.includeCodeExamples ? [checkCodeBlocks(content)] : []),
+    checkReadability(prose, options.language)
+  ];
+
+  const totalWeight = checks.reduce((sum, check) => sum + check.weight, 0);
+  const score = Math.round(checks.reduce((sum, check) => sum + check.score * check.weight, 0) / totalWeight * 100);
+
+  return { score, wordCount, keywordDensity, checks };
+}
+
+/**
+ * 用本地分析结果覆盖文章的评分和字数
+ */
+export function applyQualityReport(article: GeneratedArticle, report: QualityReport): GeneratedArticle {
+  return {
+    ...article,
+    frontmatter: { ...article.frontmatter, seoScore: report.score },
+    metadata: { ...article.metadata, wordCount: report.wordCount, quality: report }
+  };
+}
+
+/**
+ * 质量门禁：评分并在低于阈值时按配置重新生成，未设置 config 时只评分
+ */
+export async function generateWithQualityGate(
+  keyword: string,
+  generate: () => Promise<GeneratedArticle>,
+  options: QualityOptions,
+  config?: QualityGateConfig
+): Promise<QualityGateResult> {
+  const maxAttempts = config?.onFail === 'regenerate' ? Math.max(1, config.maxAttempts ?? 2) : 1;
+  let best: { article: GeneratedArticle; report: QualityReport } | undefined;
+  let attempts = 0;
+
+  while (attempts < maxAttempts) {
+    attempts++;
+
+    const generated = await generate();
+    const report = analyzeArticle(generated, keyword, options);
+    const article = applyQualityReport(generated, report);
+
+    if (!best || report.score > best.report.score) {
+      best = { article, report };
+    }
+
+    if (!config || report.score >= config.minScore) {
+      return { article, report, attempts, passed: true };
+    }
+
+    console.warn(`⚠️  Quality score ${report.score} below ${config.minScore} for "${keyword}" (attempt ${attempts}/${maxAttempts})`);
+  }
+
+  return { ...best!, attempts, passed: false };
+}
+
+/**
+ * 隔离未通过质量门禁的文章：<outputDir>/quarantine/<slug>.md 和 <slug>.quality.json
+ */
+export function quarantineArticle(outputDir: string, article: GeneratedArticle, report: QualityReport): string {
+  const quarantineDir = join(process.cwd(), outputDir, 'quarantine');
+  mkdirSync(quarantineDir, { recursive: true });
+
+  const filePath = join(quarantineDir, `${article.slug}.md`);
+  writeFileSync(filePath, matter.stringify(article.content, article.frontmatter));
+  writeFileSync(join(quarantineDir, `${article.slug}.quality.json`), JSON.stringify(report, null, 2));
+  console.warn(`🚧 Quarantined (score ${report.score}): ${filePath}`);
+
+  return filePath;
+}
+
+function countOccurrences(text: string, keyword: string): number {
+  if (!keyword) {
+    return 0;
+  }
+
+  return text.toLowerCase().split(keyword.toLowerCase()).length - 1;
+}
+
+/**
+ * 在区间内得 1 分，偏离不超过一倍得 0.5 分
+ */
+function scoreRange(value: number, min: number, max: number): number {
+  if (value >= min && value <= max) {
+    return 1;
+  }
+
+  return value >= min / 2 && value <= max * 2 ? 0.5 : 0;
+}
+
+/**
+ * 标题层级：正文不使用 H1（标题由模板渲染），至少 3 个 H2，层级不跳级
+ */
+function checkHeadingHierarchy(content: string): QualityCheck {
+  const levels = (content.replace(/```[\s\S]*?```/g, '').match(/^#{1,6} /gm) || []).map(heading => heading.trim().length);
+  const problems: string[] = [];
+
+  if (levels.includes(1)) {
+    problems.push('H1 in body');
+  }
+  if (levels.filter(level => level === 2).length < 3) {
+    problems.push('fewer than 3 H2 headings');
+  }
+  if (levels.some((level, index) => level > (levels[index - 1] ?? 1) + 1)) {
+    problems.push('skipped heading level');
+  }
+
+  return {
+    name: 'heading-hierarchy',
+    score: Math.max(0, 1 - problems.length / 2),
+    weight: 10,
+    message: problems.length > 0 ? problems.join(', ') : 'heading hierarchy ok'
+  };
+}
+
+function checkDescription(description: string, language: ArticleTemplate['language']): QualityCheck {
+  const { min, max } = DESCRIPTION_LENGTH[language] || DESCRIPTION_LENGTH['en-US'];
+  const length = description.trim().length;
+
+  return {
+    name: 'description-length',
+    score: length === 0 ? 0 : length >= min && length <= max ? 1 : 0.5,
+    weight: 10,
+    message: `description ${length} characters, ${min}-${max} expected`
+  };
+}
+
+/**
+ * 代码示例：与提示词一致，至少 3 个代码块
+ */
+function checkCodeBlocks(content: string): QualityCheck {
+  const blocks = (content.match(/```[\s\S]*?```/g) || []).length;
+
+  return {
+    name: 'code-blocks',
+    score: Math.min(1, blocks / 3),
+    weight: 10,
+    message: `${blocks} code block(s), at least 3 expected`
+  };
+}
+
+/**
+ * 可读性：平均句长和过长段落的比例
+ */
+function checkReadability(prose: string, language: ArticleTemplate['language']): QualityCheck {
+  const limits = READABILITY_LIMITS[language] || READABILITY_LIMITS['en-US'];
+  const paragraphs = prose
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(block => block && !/^(#|[-*+] |\d+\. |\||>)/.test(block));
+
+  if (paragraphs.length === 0) {
+    return { name: 'readability', score: 0, weight: 10, message: 'no prose paragraphs' };
+  }
+
+  const sentences = paragraphs.flatMap(paragraph => paragraph.split(/[。！？!?]+|\.\s+/)).filter(s => s.trim());
+  const averageSentence = sentences.reduce((sum, sentence) => sum + countWords(sentence), 0) / Math.max(1, sentences.length);
+  const longParagraphs = paragraphs.filter(paragraph => countWords(paragraph) > limits.paragraph).length;
+
+  const sentenceScore = averageSentence <= limits.sentence ? 1 : averageSentence <= limits.sentence * 1.5 ? 0.5 : 0;
+  const paragraphScore = 1 - longParagraphs / paragraphs.length;
+
+  return {
+    name: 'readability',
+    score: (sentenceScore + paragraphScore) / 2,
+    weight: 10,
+    message: `average sentence ${averageSentence.toFixed(1)} words, ${longParagraphs}/${paragraphs.length} long paragraph(s)`
+  };
+}
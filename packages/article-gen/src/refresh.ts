@@ -0,0 +1,262 @@
+/**
+ * Article Refresh
+ * 文章更新 - 按发布时间、排名下降或标签挑选已有文章，保留 slug、内链和发布日期原地改写，并保存旧版本以便回滚
+ */
+
+import { readFileSync, writeFileSync, readdirSync, existsSync, mkdirSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import matter from 'gray-matter';
+import { extractStructuredData, hasStructuredData, withStructuredData } from './structured.js';
+
+/**
+ * 挑选条件，满足任意一条即入选
+ */
+export interface RefreshCriteria {
+  // 发布（或上次更新）超过多少天
+  olderThanDays?: number;
+  // 任一关键词比 30 天内最好排名下降至少多少位
+  rankDrop?: number;
+  tags?: string[];
+  slugs?: string[];
+  // 最多更新多少篇，最旧的优先
+  limit?: number;
+}
+
+export interface RefreshCandidate {
+  slug: string;
+  filePath: string;
+  title: string;
+  keyword: string;
+  frontmatter: Record<string, any>;
+  content: string;
+  // 入选原因，也会写进改写说明
+  reasons: string[];
+}
+
+/**
+ * 发给内容提供方的改写请求
+ */
+export interface RefreshRequest {
+  keyword: string;
+  title: string;
+  markdown: string;
+  brief: string;
+}
+
+export interface ArticleVersion {
+  id: string;
+  path: string;
+}
+
+/**
+ * rank-monitor 的 ranking-history.json 中每个关键词的记录
+ */
+interface RankingHistoryEntry {
+  keyword: string;
+  history: { date: string; position: number }[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function loadRankingHistory(historyPath: string): Map<string, RankingHistoryEntry['history']> {
+  const rankings = new Map<string, RankingHistoryEntry['history']>();
+  const fullPath = join(process.cwd(), historyPath);
+
+  if (!existsSync(fullPath)) {
+    return rankings;
+  }
+
+  const entries: RankingHistoryEntry[] = JSON.parse(readFileSync(fullPath, 'utf-8'));
+  for (const entry of entries) {
+    rankings.set(entry.keyword.toLowerCase(), [...entry.history].sort((a, b) => a.date.localeCompare(b.date)));
+  }
+
+  return rankings;
+}
+
+export function selectRefreshCandidates(
+  contentDir: string,
+  criteria: RefreshCriteria,
+  rankings: Map<string, RankingHistoryEntry['history']> = new Map(),
+  now: Date = new Date()
+): RefreshCandidate[] {
+  const fullDir = join(process.cwd(), contentDir);
+  if (!existsSync(fullDir)) {
+    return [];
+  }
+
+  const tags = (criteria.tags || []).map(tag => tag.toLowerCase());
+  const candidates: (RefreshCandidate & { updatedAt: number })[] = [];
+
+  for (const file of readdirSync(fullDir).filter(name => name.endsWith('.md'))) {
+    const slug = file.replace(/\.md$/, '');
+    const filePath = join(fullDir, file);
+    const { data, content } = matter(readFileSync(filePath, 'utf-8'));
+    const keywords = toList(data.keywords);
+    const updatedAt = new Date(data.updatedDate || data.date || 0).getTime();
+    const reasons: string[] = [];
+
+    if (criteria.slugs?.includes(slug)) {
+      reasons.push('selected by slug');
+    }
+
+    if (criteria.olderThanDays !== undefined) {
+      const age = Math.floor((now.getTime() - updatedAt) / DAY_MS);
+      if (age >= criteria.olderThanDays) {
+        reasons.push(`last updated ${age} days ago`);
+      }
+    }
+
+    if (criteria.rankDrop !== undefined) {
+      for (const keyword of keywords) {
+        const drop = getRankDrop(rankings.get(keyword.toLowerCase()));
+        if (drop >= criteria.rankDrop) {
+          reasons.push(`"${keyword}" dropped ${drop} positions`);
+          break;
+        }
+      }
+    }
+
+    const matchedTags = toList(data.tags).filter(tag => tags.includes(tag.toLowerCase()));
+    if (matchedTags.length > 0) {
+      reasons.push(`tagged ${matchedTags.join(', ')}`);
+    }
+
+    if (reasons.length > 0) {
+      candidates.push({
+        slug,
+        filePath,
+        title: data.title || slug,
+        keyword: keywords[0] || data.title || slug,
+        frontmatter: data,
+        content,
+        reasons,
+        updatedAt
+      });
+    }
+  }
+
+  return candidates
+    .sort((a, b) => a.updatedAt - b.updatedAt)
+    .slice(0, criteria.limit ?? candidates.length)
+    .map(({ updatedAt, ...candidate }) => candidate);
+}
+
+/**
+ * 改写说明：入选原因 + 通用要求 + 自定义说明
+ */
+export function buildRefreshBrief(candidate: RefreshCandidate, extra?: string): string {
+  return [
+    `Refresh reasons: ${candidate.reasons.join('; ')}.`,
+    'Update outdated facts, versions and code examples, add current best practices, and keep the structure and headings where they still fit.',
+    extra
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * 站内链接（相对路径或以 / 开头），改写后必须全部保留
+ */
+export function findInternalLinks(markdown: string): string[] {
+  const links = [...markdown.matchAll(/\]\((?!https?:|mailto:|#)([^)\s]+)/g)].map(match => match[1]);
+  return [...new Set(links)];
+}
+
+/**
+ * 合并改写结果：正文替换为新版本，frontmatter（含 date）保持不变并写入 updatedDate，已有的结构化数据按新正文重新提取
+ * 新版本丢失站内链接时抛错，原文不变
+ */
+export function applyRefresh(
+  candidate: RefreshCandidate,
+  refreshed: string,
+  updatedDate: string = new Date().toISOString().split('T')[0]
+): string {
+  // 模型可能连同 frontmatter 一起返回，只取正文
+  const content = matter(refreshed).content.trim();
+  if (!content) {
+    throw new Error(`Refresh of ${candidate.slug} returned empty content`);
+  }
+
+  const missing = findInternalLinks(candidate.content).filter(link => !content.includes(`](${link}`));
+  if (missing.length > 0) {
+    throw new Error(`Refresh of ${candidate.slug} dropped internal links: ${missing.join(', ')}`);
+  }
+
+  let frontmatter: Record<string, any> = { ...candidate.frontmatter, updatedDate };
+  if (hasStructuredData(frontmatter)) {
+    frontmatter = withStructuredData(frontmatter, extractStructuredData(content));
+  }
+  if (frontmatter.date instanceof Date) {
+    frontmatter.date = frontmatter.date.toISOString().split('T')[0];
+  }
+
+  return matter.stringify(`\n${content}\n`, frontmatter);
+}
+
+/**
+ * 保存当前版本到 <versionsDir>/<slug>/<时间戳>.md
+ */
+export function backupArticle(versionsDir: string, slug: string, filePath: string): ArticleVersion {
+  const dir = join(process.cwd(), versionsDir, slug);
+  mkdirSync(dir, { recursive: true });
+
+  const id = new Date().toISOString().replace(/[:.]/g, '-');
+  const path = join(dir, `${id}.md`);
+  writeFileSync(path, readFileSync(filePath, 'utf-8'));
+
+  return { id, path };
+}
+
+/**
+ * 已保存的版本，最新的在前
+ */
+export function listArticleVersions(versionsDir: string, slug: string): ArticleVersion[] {
+  const dir = join(process.cwd(), versionsDir, slug);
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.md'))
+    .sort()
+    .reverse()
+    .map(file => ({ id: file.replace(/\.md$/, ''), path: join(dir, file) }));
+}
+
+/**
+ * 用保存的版本（默认最新）覆盖文章，并删除该版本
+ */
+export function revertArticle(versionsDir: string, contentDir: string, slug: string, versionId?: string): ArticleVersion {
+  const versions = listArticleVersions(versionsDir, slug);
+  const version = versionId ? versions.find(v => v.id === versionId) : versions[0];
+
+  if (!version) {
+    throw new Error(versionId
+      ? `Version ${versionId} not found for ${slug}`
+      : `No saved versions for ${slug}`);
+  }
+
+  writeFileSync(join(process.cwd(), contentDir, `${slug}.md`), readFileSync(version.path, 'utf-8'));
+  unlinkSync(version.path);
+
+  return version;
+}
+
+/**
+ * 排名下降幅度：最近一次排名与记录中最好排名之差
+ */
+function getRankDrop(history?: RankingHistoryEntry['history']): number {
+  if (!history || history.length < 2) {
+    return 0;
+  }
+
+  const best = Math.min(...history.map(entry => entry.position));
+  return history[history.length - 1].position - best;
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+
+  return typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
@@ -0,0 +1,28 @@
+/**
+ * Post Frontmatter Schema
+ * 与 site-template 中 Astro `posts` 集合（src/content/config.ts）保持一致的 frontmatter 模式
+ */
+
+import { z } from 'zod';
+
+export const postFrontmatterSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  keywords: z.array(z.string()),
+  date: z.coerce.date(),
+  // 文章更新（refresh）时写入，发布日期 date 保持不变
+  updatedDate: z.coerce.date().optional(),
+  author: z.string().default('AI Author'),
+  tags: z.array(z.string()),
+  seoScore: z.number().min(0).max(100).optional(),
+  featured: z.boolean().default(false),
+  // 从正文中提取的结构化数据，用于 FAQPage / HowTo JSON-LD
+  faq: z.array(z.object({ question: z.string(), answer: z.string() })).optional(),
+  howTo: z.object({
+    name: z.string(),
+    steps: z.array(z.object({ name: z.string().optional(), text: z.string() })).min(1),
+  }).optional(),
+  codeSamples: z.array(z.object({ language: z.string(), code: z.string(), title: z.string().optional() })).optional(),
+});
+
+export type PostFrontmatter = z.infer<typeof postFrontmatterSchema>;
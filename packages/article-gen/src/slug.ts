@@ -0,0 +1,194 @@
+/**
+ * Slug Service
+ * Slug 生成 - 中文转拼音（或用稳定哈希代替），限制长度，避开已有内容的 slug，
+ * 并把关键词 → slug 记录在注册表中，重新生成同一关键词的文章时 URL 不变
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import matter from 'gray-matter';
+import { pinyin } from 'pinyin-pro';
+import { DEFAULT_CONTENT_DIRS } from './dedupe.js';
+
+export interface SlugOptions {
+  // pinyin（默认）：中文转拼音；hash：去掉中文，改为在末尾加标题的哈希
+  transliterate?: 'pinyin' | 'hash';
+  // 最大长度，默认 60，超出时在单词边界截断
+  maxLength?: number;
+}
+
+export interface SlugServiceConfig extends SlugOptions {
+  // 注册表文件（相对当前目录）
+  registryPath: string;
+  // 检查冲突的内容目录（相对当前目录），其中已有的 <slug>.md 不会被其他关键词占用
+  contentDirs: string[];
+}
+
+export interface SlugRecord {
+  slug: string;
+  keyword: string;
+  title: string;
+  createdAt: string;
+}
+
+/**
+ * <outputDir>/slugs.json：规范化的关键词 → slug
+ */
+export interface SlugRegistry {
+  version: 1;
+  entries: Record<string, SlugRecord>;
+}
+
+const DEFAULT_MAX_LENGTH = 60;
+const CJK = /[\u3400-\u9fff\uf900-\ufaff]/;
+
+/**
+ * 把标题转换为 URL 安全的 slug；没有可用字符时用标题哈希，保证非空且稳定
+ */
+export function slugify(text: string, options: SlugOptions = {}): string {
+  const maxLength = options.maxLength ?? DEFAULT_MAX_LENGTH;
+  const hashed = options.transliterate === 'hash';
+
+  const words = hashed
+    ? [text.replace(new RegExp(CJK.source, 'g'), ' ')]
+    : pinyin(text, { toneType: 'none', type: 'array', nonZh: 'consecutive' });
+
+  let slug = truncate(
+    words
+      .join(' ')
+      .normalize('NFKD')
+      .toLowerCase()
+      .replace(/[^a-z0-9\s-]/g, ' ')
+      .trim()
+      .replace(/[\s-]+/g, '-'),
+    maxLength
+  );
+
+  if (hashed && CJK.test(text)) {
+    const suffix = hashText(text).slice(0, 6);
+    slug = slug ? `${truncate(slug, maxLength - suffix.length - 1)}-${suffix}` : suffix;
+  }
+
+  return slug || `post-${hashText(text).slice(0, 8)}`;
+}
+
+export class SlugService {
+  private config: SlugServiceConfig;
+  private registry?: SlugRegistry;
+
+  constructor(config: SlugServiceConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 关键词已注册时返回原来的 slug；否则由 proposed（提供方给出的 slug）或标题生成，
+   * 与其他关键词的 slug 或已有文件冲突时追加 -2、-3…，并写入注册表
+   */
+  assign(keyword: string, title: string, proposed?: string): string {
+    const registry = this.load();
+    const key = normalizeKeyword(keyword);
+    const existing = registry.entries[key];
+
+    if (existing) {
+      return existing.slug;
+    }
+
+    const maxLength = this.config.maxLength ?? DEFAULT_MAX_LENGTH;
+    const base = slugify(proposed || title || keyword, this.config);
+    const taken = new Set(Object.values(registry.entries).map(record => record.slug));
+
+    let slug = base;
+    for (let i = 2; taken.has(slug) || this.isTakenByFile(slug, keyword); i++) {
+      slug = `${truncate(base, maxLength - String(i).length - 1)}-${i}`;
+    }
+
+    if (slug !== base) {
+      console.warn(`⚠️  Slug "${base}" is already used, "${keyword}" gets "${slug}"`);
+    }
+
+    registry.entries[key] = { slug, keyword, title, createdAt: new Date().toISOString() };
+    this.save(registry);
+
+    return slug;
+  }
+
+  /**
+   * 已注册的 slug（不存在时返回 undefined）
+   */
+  lookup(keyword: string): string | undefined {
+    return this.load().entries[normalizeKeyword(keyword)]?.slug;
+  }
+
+  /**
+   * 内容目录中已有同名文件，且文件的关键词不包含当前关键词（即不是同一篇文章的旧版本）
+   */
+  private isTakenByFile(slug: string, keyword: string): boolean {
+    const key = normalizeKeyword(keyword);
+
+    return this.config.contentDirs.some(dir => {
+      const fullDir = resolve(process.cwd(), dir);
+      const file = existsSync(fullDir)
+        ? readdirSync(fullDir).find(name => name === `${slug}.md` || name === `${slug}.mdx`)
+        : undefined;
+
+      if (!file) {
+        return false;
+      }
+
+      const { data } = matter(readFileSync(join(fullDir, file), 'utf-8'));
+      const keywords = Array.isArray(data.keywords) ? data.keywords.map((item: unknown) => normalizeKeyword(String(item))) : [];
+      return !keywords.includes(key);
+    });
+  }
+
+  private load(): SlugRegistry {
+    if (this.registry) {
+      return this.registry;
+    }
+
+    const path = resolve(process.cwd(), this.config.registryPath);
+    this.registry = existsSync(path)
+      ? JSON.parse(readFileSync(path, 'utf-8')) as SlugRegistry
+      : { version: 1, entries: {} };
+
+    return this.registry;
+  }
+
+  private save(registry: SlugRegistry): void {
+    const path = resolve(process.cwd(), this.config.registryPath);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(`${path}.tmp`, JSON.stringify(registry, null, 2));
+    renameSync(`${path}.tmp`, path);
+  }
+}
+
+/**
+ * 默认配置：注册表为 <outputDir>/slugs.json，检查 <outputDir>/articles 和站点内容集合
+ */
+export function createSlugService(outputDir: string, options: SlugOptions = {}): SlugService {
+  return new SlugService({
+    ...options,
+    registryPath: join(outputDir, 'slugs.json'),
+    contentDirs: [join(outputDir, 'articles'), ...DEFAULT_CONTENT_DIRS]
+  });
+}
+
+function truncate(slug: string, maxLength: number): string {
+  if (slug.length <= maxLength) {
+    return slug;
+  }
+
+  const cut = slug.slice(0, maxLength);
+  const boundary = cut.lastIndexOf('-');
+  // 单个很长的词时直接截断
+  return (boundary > maxLength / 2 ? cut.slice(0, boundary) : cut).replace(/-+$/, '');
+}
+
+function normalizeKeyword(keyword: string): string {
+  return keyword.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function hashText(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
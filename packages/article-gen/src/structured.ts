@@ -0,0 +1,403 @@
+#!/usr/bin/env node
+
+/**
+ * Structured Data Extraction
+ * 结构化数据提取 - 从正文中提取 FAQ 问答、分步操作说明和主要代码示例，写入 frontmatter 的 faq / howTo / codeSamples，
+ * 站点模板据此输出 FAQPage 和 HowTo JSON-LD
+ */
+
+import { existsSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import matter from 'gray-matter';
+import type { GeneratedArticle } from './index.js';
+
+export interface FaqItem {
+  question: string;
+  answer: string;
+}
+
+export interface HowToStep {
+  // 步骤标题（列表项没有加粗标题时为空）
+  name?: string;
+  text: string;
+}
+
+export interface HowTo {
+  // 所在小节的标题
+  name: string;
+  steps: HowToStep[];
+}
+
+export interface CodeSample {
+  language: string;
+  code: string;
+  // 代码块之前最近的标题
+  title?: string;
+}
+
+/**
+ * 写入 frontmatter 的字段，没有提取到的字段不出现
+ */
+export interface StructuredData {
+  faq?: FaqItem[];
+  howTo?: HowTo;
+  codeSamples?: CodeSample[];
+}
+
+export interface StructuredDataOptions {
+  // 最多保留的代码示例数（按行数取最长的几个，保持正文顺序），默认 3，0 表示不提取
+  maxCodeSamples?: number;
+  // 代码示例最少行数，默认 3
+  minCodeLines?: number;
+  // HowTo 最少步骤数，默认 3
+  minSteps?: number;
+}
+
+interface Subsection {
+  heading: string;
+  lines: string[];
+}
+
+interface Section {
+  heading: string;
+  // H2 标题和第一个 H3 之间的内容
+  lines: string[];
+  subsections: Subsection[];
+}
+
+const STRUCTURED_FIELDS = ['faq', 'howTo', 'codeSamples'] as const;
+
+const FAQ_HEADING = /\bfaqs?\b|frequently asked|common questions|questions and answers|\bq\s*&\s*a\b|常见问题|问答|答疑/i;
+const HOWTO_HEADING = /\bsteps?\b|\bhow to\b|walkthrough|tutorial|步骤|如何|怎么|教程|流程/i;
+// Step 1: / 第 1 步 / 步骤一 / 1.
+const STEP_PREFIX = /^(?:step\s*\d+|第\s*[\d一二三四五六七八九十]+\s*步|步骤\s*[\d一二三四五六七八九十]+|\d+[.)、])\s*[:：.\-–—]?\s*/i;
+const QUESTION_PREFIX = /^(?:Q\d*|问题?\d*)\s*[:：.]\s*/i;
+const ANSWER_PREFIX = /^(?:A\d*|答)\s*[:：.]\s*/i;
+const FENCE_LINE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+// 不是代码的代码块（命令输出、纯文本）
+const NON_CODE_LANGUAGES = ['text', 'txt', 'plaintext', 'output', 'log', 'console'];
+
+/**
+ * 从 Markdown 正文中提取结构化数据
+ */
+export function extractStructuredData(markdown: string, options: StructuredDataOptions = {}): StructuredData {
+  const sections = parseSections(markdown);
+  const faq = extractFaq(sections);
+  const howTo = extractHowTo(sections, options.minSteps ?? 3);
+  const codeSamples = extractCodeSamples(markdown, options);
+
+  return {
+    ...(faq.length > 0 && { faq }),
+    ...(howTo && { howTo }),
+    ...(codeSamples.length > 0 && { codeSamples })
+  };
+}
+
+/**
+ * 用新的提取结果替换 frontmatter 中的结构化字段，正文中已没有的字段会被删除
+ */
+export function withStructuredData<T extends object>(frontmatter: T, data: StructuredData): T & StructuredData {
+  const next = { ...frontmatter } as Record<string, unknown>;
+  STRUCTURED_FIELDS.forEach(field => delete next[field]);
+
+  return { ...next, ...data } as T & StructuredData;
+}
+
+/**
+ * frontmatter 中已有结构化字段（refresh 改写正文后需要重新提取）
+ */
+export function hasStructuredData(frontmatter: object): boolean {
+  return STRUCTURED_FIELDS.some(field => field in frontmatter);
+}
+
+export function applyStructuredData(article: GeneratedArticle, options: StructuredDataOptions = {}): GeneratedArticle {
+  return {
+    ...article,
+    frontmatter: withStructuredData(article.frontmatter, extractStructuredData(article.content, options))
+  };
+}
+
+export function describeStructuredData(data: StructuredData): string {
+  const parts = [
+    data.faq && `${data.faq.length} FAQ`,
+    data.howTo && `HowTo (${data.howTo.steps.length} steps)`,
+    data.codeSamples && `${data.codeSamples.length} code sample(s)`
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(', ') : 'nothing found';
+}
+
+// ============================================
+// FAQ
+// ============================================
+
+/**
+ * FAQ 小节（标题含 FAQ / 常见问题 等）中的问答：H3 标题为问题，或以加粗行、Q: / 问：开头的段落为问题
+ */
+function extractFaq(sections: Section[]): FaqItem[] {
+  const items: FaqItem[] = [];
+
+  for (const section of sections.filter(candidate => FAQ_HEADING.test(candidate.heading))) {
+    if (section.subsections.length > 0) {
+      for (const { heading, lines } of section.subsections) {
+        items.push({ question: toPlainText(heading.replace(QUESTION_PREFIX, '')), answer: toAnswer(lines) });
+      }
+    } else {
+      items.push(...extractInlineFaq(section.lines));
+    }
+  }
+
+  return items.filter(item => item.question && item.answer);
+}
+
+function extractInlineFaq(lines: string[]): FaqItem[] {
+  const items: { question: string; lines: string[] }[] = [];
+
+  for (const line of lines) {
+    const question = matchQuestion(line);
+    if (question) {
+      items.push({ question: question.question, lines: [question.rest] });
+    } else if (items.length > 0) {
+      items[items.length - 1].lines.push(line);
+    }
+  }
+
+  return items.map(item => ({ question: toPlainText(item.question), answer: toAnswer(item.lines) }));
+}
+
+function matchQuestion(line: string): { question: string; rest: string } | undefined {
+  // **问题？** 答案 或单独一行的 **问题**（可以是列表项）
+  const bold = line.match(/^\s*(?:[-*+]\s+|\d+[.)]\s+)?(\*\*|__)(.+?)\1[:：]?\s*(.*)$/);
+  if (bold && (!bold[3] || /[?？]$/.test(bold[2].trim()))) {
+    return { question: bold[2].replace(QUESTION_PREFIX, ''), rest: bold[3] };
+  }
+
+  const prefixed = line.match(QUESTION_PREFIX);
+  if (prefixed) {
+    return { question: line.slice(prefixed[0].length), rest: '' };
+  }
+
+  return undefined;
+}
+
+function toAnswer(lines: string[]): string {
+  return toParagraphs(lines).join(' ').replace(ANSWER_PREFIX, '');
+}
+
+// ============================================
+// HowTo
+// ============================================
+
+/**
+ * 第一个分步说明：至少 minSteps 个 Step N / 第 N 步 形式的 H3，
+ * 或标题含 steps / how to / 步骤 / 如何 等的小节中的有序列表
+ */
+function extractHowTo(sections: Section[], minSteps: number): HowTo | undefined {
+  for (const section of sections) {
+    const stepHeadings = section.subsections.filter(subsection => STEP_PREFIX.test(subsection.heading));
+    if (stepHeadings.length >= minSteps) {
+      return {
+        name: section.heading,
+        steps: stepHeadings.map(({ heading, lines }) => {
+          const name = toPlainText(heading.replace(STEP_PREFIX, ''));
+          return { name, text: toParagraphs(lines).join(' ') || name };
+        })
+      };
+    }
+
+    if (HOWTO_HEADING.test(section.heading)) {
+      const items = findOrderedList(section.lines, minSteps);
+      if (items) {
+        return { name: section.heading, steps: items.map(toStep) };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * 第一个至少 minItems 项的有序列表，缩进的续行并入上一项
+ */
+function findOrderedList(lines: string[], minItems: number): string[] | undefined {
+  let items: string[] = [];
+
+  for (const line of lines) {
+    const item = line.match(/^\s{0,3}\d+[.)]\s+(.+)$/);
+    if (item) {
+      items.push(item[1]);
+    } else if (items.length > 0 && /^\s+\S/.test(line)) {
+      items[items.length - 1] += ` ${line.trim()}`;
+    } else if (items.length > 0 && line.trim()) {
+      // 列表之后的普通段落
+      if (items.length >= minItems) {
+        break;
+      }
+      items = [];
+    }
+  }
+
+  return items.length >= minItems ? items : undefined;
+}
+
+function toStep(item: string): HowToStep {
+  // **安装依赖**：运行 ... → 标题 + 说明
+  const titled = item.match(/^(\*\*|__)(.+?)\1\s*[:：.\-–—]?\s*(.*)$/);
+  if (titled && titled[3]) {
+    return { name: toPlainText(titled[2]), text: toPlainText(titled[3]) };
+  }
+
+  return { text: toPlainText(item) };
+}
+
+// ============================================
+// Code Samples / 代码示例
+// ============================================
+
+function extractCodeSamples(markdown: string, options: StructuredDataOptions): CodeSample[] {
+  const maxSamples = options.maxCodeSamples ?? 3;
+  const minLines = options.minCodeLines ?? 3;
+  const samples: CodeSample[] = [];
+  let heading: string | undefined;
+  let open: { fence: string; sample: CodeSample; lines: string[] } | undefined;
+
+  for (const line of markdown.split('\n')) {
+    if (open) {
+      const closing = line.match(/^\s*(`{3,}|~{3,})\s*$/);
+      if (closing && closing[1][0] === open.fence[0] && closing[1].length >= open.fence.length) {
+        samples.push({ ...open.sample, code: open.lines.join('\n') });
+        open = undefined;
+      } else {
+        open.lines.push(line);
+      }
+      continue;
+    }
+
+    const fence = line.match(FENCE_LINE);
+    if (fence) {
+      open = { fence: fence[1], sample: { language: fence[2].toLowerCase(), code: '', ...(heading && { title: heading }) }, lines: [] };
+      continue;
+    }
+
+    const title = line.match(/^#{2,6}\s+(.+?)\s*#*\s*$/);
+    if (title) {
+      heading = toPlainText(title[1]);
+    }
+  }
+
+  const seen = new Set<string>();
+  const candidates = samples.filter(sample => {
+    const usable = sample.language && !NON_CODE_LANGUAGES.includes(sample.language) &&
+      sample.code.trim().split('\n').length >= minLines && !seen.has(sample.code);
+    seen.add(sample.code);
+    return usable;
+  });
+
+  // 取最长的几个，按正文顺序排列
+  const primary = new Set(
+    [...candidates].sort((a, b) => b.code.split('\n').length - a.code.split('\n').length).slice(0, maxSamples)
+  );
+
+  return candidates.filter(sample => primary.has(sample));
+}
+
+// ============================================
+// Markdown Helpers / Markdown 工具
+// ============================================
+
+/**
+ * 按 H2 / H3 切分正文，跳过代码块
+ */
+function parseSections(markdown: string): Section[] {
+  const sections: Section[] = [];
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (FENCE_LINE.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      continue;
+    }
+
+    const h2 = line.match(/^##\s+(.+?)\s*#*\s*$/);
+    const h3 = line.match(/^###\s+(.+?)\s*#*\s*$/);
+    const section = sections[sections.length - 1];
+
+    if (h2) {
+      sections.push({ heading: toPlainText(h2[1]), lines: [], subsections: [] });
+    } else if (!section) {
+      // 第一个 H2 之前的导语
+      continue;
+    } else if (h3) {
+      section.subsections.push({ heading: h3[1], lines: [] });
+    } else {
+      (section.subsections[section.subsections.length - 1]?.lines || section.lines).push(line);
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * 按空行分段并转为纯文本
+ */
+function toParagraphs(lines: string[]): string[] {
+  return lines
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => toPlainText(paragraph.split('\n').map(line => line.replace(/^\s*(?:>\s*)+|^\s*(?:[-*+]|\d+[.)])\s+|^#+\s*/, '')).join(' ')))
+    .filter(Boolean);
+}
+
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// CLI 入口：为已保存的文章重新提取结构化数据
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const dirs = args.filter(arg => !arg.startsWith('--'));
+  let updated = 0;
+
+  for (const dir of dirs.length > 0 ? dirs : ['data/articles']) {
+    const fullPath = join(process.cwd(), dir);
+    if (!existsSync(fullPath)) {
+      console.warn(`⚠️  Directory not found: ${dir}`);
+      continue;
+    }
+
+    for (const file of readdirSync(fullPath).filter(name => /\.mdx?$/.test(name))) {
+      const filePath = join(fullPath, file);
+      const { data: frontmatter, content } = matter(readFileSync(filePath, 'utf-8'));
+      const data = extractStructuredData(content);
+      const current = Object.fromEntries(STRUCTURED_FIELDS.filter(field => field in frontmatter).map(field => [field, frontmatter[field]]));
+
+      if (JSON.stringify(current) === JSON.stringify(data)) {
+        continue;
+      }
+
+      for (const key of ['date', 'updatedDate']) {
+        if (frontmatter[key] instanceof Date) {
+          frontmatter[key] = frontmatter[key].toISOString().split('T')[0];
+        }
+      }
+
+      updated++;
+      console.log(`🧩 ${join(dir, file)}: ${describeStructuredData(data)}`);
+      if (!dryRun) {
+        writeFileSync(filePath, matter.stringify(content, withStructuredData(frontmatter, data)));
+      }
+    }
+  }
+
+  console.log(`\n✅ ${updated} article(s) ${dryRun ? 'would be ' : ''}updated`);
+}
@@ -9,7 +9,7 @@ import { writeFileSync, mkdirSync, existsSync, readFileSync } from 'fs';
 import { join } from 'path';
 import nodemailer from 'nodemailer';
 
-interface ReportConfig {
+export interface ReportConfig {
   outputDir: string;
   email?: {
     enabled: boolean;
@@ -49,7 +49,7 @@ export class ReportGenerator {
   /**
    * 生成周报
    */
-  async generateWeeklyReport(): Promise<void> {
+  async generateWeeklyReport(): Promise<string> {
     console.log('📊 Generating weekly SEO report...\n');
 
     const data = this.collectData();
@@ -66,6 +66,8 @@ export class ReportGenerator {
     if (this.config.email?.enabled) {
       await this.sendEmailReport(data, html);
     }
+
+    return outputPath;
   }
 
   /**
@@ -8,7 +8,7 @@
 import { writeFileSync, readFileSync, existsSync, mkdirSync, readdirSync } from 'fs';
 import { join } from 'path';
 
-interface SiteConfig {
+export interface SiteConfig {
   id: string;
   name: string;
   domain: string;
@@ -16,12 +16,15 @@ interface SiteConfig {
   status: 'active' | 'inactive' | 'error';
   niche: string;
   keywords: string[];
+  // 文章生成使用的内容提供方和模型，未设置时沿用 pipeline.config.json
+  contentProvider?: 'claude' | 'openai' | 'gemini' | 'mock';
+  contentModel?: string;
   createdAt: string;
   lastDeployed?: string;
   metrics?: SiteMetrics;
 }
 
-interface SiteMetrics {
+export interface SiteMetrics {
   pageviews: number;
   uniqueVisitors: number;
   avgRanking: number;
@@ -29,7 +32,7 @@ interface SiteMetrics {
   indexedPages: number;
 }
 
-interface ClusterConfig {
+export interface ClusterConfig {
   sites: SiteConfig[];
   globalSettings: {
     maxSites: number;
@@ -208,6 +211,17 @@ export class SiteClusterManager {
     console.log('='.repeat(80) + '\n');
   }
 
+  /**
+   * 记录站点的最近部署时间
+   */
+  markDeployed(siteId: string): void {
+    const site = this.config.sites.find(s => s.id === siteId);
+    if (!site) return;
+
+    site.lastDeployed = new Date().toISOString();
+    this.saveConfig();
+  }
+
   /**
    * 获取站点配置
    */
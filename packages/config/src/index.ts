@@ -16,15 +16,16 @@ import { resolve } from 'path';
  */
 
 // AI API Configuration
+// 各提供方的 key 都是可选的，用到时由 validateFeatureConfig 检查（mock 提供方离线运行不需要 key）
 const aiApiSchema = z.object({
-  anthropicApiKey: z.string().min(1, 'ANTHROPIC_API_KEY is required'),
+  anthropicApiKey: z.string().optional(),
   openaiApiKey: z.string().optional(),
   geminiApiKey: z.string().optional(),
 });
 
 // Deployment Configuration
 const deploymentSchema = z.object({
-  platform: z.enum(['cloudflare', 'vercel', 'netlify', 'amplify']),
+  platform: z.enum(['cloudflare', 'vercel', 'netlify', 'amplify']).optional(),
   cloudflareApiToken: z.string().optional(),
   cloudflareAccountId: z.string().optional(),
   vercelToken: z.string().optional(),
@@ -46,10 +47,11 @@ const seoApiSchema = z.object({
 });
 
 // Security Configuration
+// 未设置时允许为空，设置了就必须满足长度要求
 const securitySchema = z.object({
-  jwtSecret: z.string().min(32, 'JWT_SECRET must be at least 32 characters'),
+  jwtSecret: z.string().min(32, 'JWT_SECRET must be at least 32 characters').optional(),
   jwtExpiresIn: z.string().default('7d'),
-  encryptionKey: z.string().min(32, 'ENCRYPTION_KEY must be at least 32 characters'),
+  encryptionKey: z.string().min(32, 'ENCRYPTION_KEY must be at least 32 characters').optional(),
   rateLimitWindowMs: z.string().transform(Number).default('900000'),
   rateLimitMaxRequests: z.string().transform(Number).default('100'),
   corsOrigin: z.string().default('http://localhost:3000'),
@@ -325,7 +327,7 @@ export function loadConfig(): Config {
       OPENAI_API_KEY: getDecryptedValue(process.env.OPENAI_API_KEY),
       GEMINI_API_KEY: getDecryptedValue(process.env.GEMINI_API_KEY),
 
-      DEPLOY_PLATFORM: process.env.DEPLOY_PLATFORM,
+      DEPLOY_PLATFORM: process.env.DEPLOY_PLATFORM || undefined,
       CLOUDFLARE_API_TOKEN: getDecryptedValue(process.env.CLOUDFLARE_API_TOKEN),
       CLOUDFLARE_ACCOUNT_ID: getDecryptedValue(process.env.CLOUDFLARE_ACCOUNT_ID),
       VERCEL_TOKEN: getDecryptedValue(process.env.VERCEL_TOKEN),
@@ -344,7 +346,7 @@ export function loadConfig(): Config {
 
       JWT_SECRET: getDecryptedValue(process.env.JWT_SECRET),
       JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN,
-      ENCRYPTION_KEY: process.env.ENCRYPTION_KEY, // Encryption key should be in plain text for now
+      ENCRYPTION_KEY: process.env.ENCRYPTION_KEY || undefined, // Encryption key should be in plain text for now
       RATE_LIMIT_WINDOW_MS: process.env.RATE_LIMIT_WINDOW_MS,
       RATE_LIMIT_MAX_REQUESTS: process.env.RATE_LIMIT_MAX_REQUESTS,
       CORS_ORIGIN: process.env.CORS_ORIGIN,
@@ -468,6 +470,7 @@ export function validateFeatureConfig(feature: string): { valid: boolean; missin
   const featureRequirements: Record<string, (keyof Config)[]> = {
     'article-gen': ['ANTHROPIC_API_KEY'],
     'image-gen': ['OPENAI_API_KEY'],
+    'gpt4-gen': ['OPENAI_API_KEY'],
     'gemini-gen': ['GEMINI_API_KEY'],
     'cloudflare-deploy': ['CLOUDFLARE_API_TOKEN', 'CLOUDFLARE_ACCOUNT_ID'],
     'vercel-deploy': ['VERCEL_TOKEN'],
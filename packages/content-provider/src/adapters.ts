@@ -0,0 +1,232 @@
+/**
+ * Provider Adapters
+ * 适配器 - 把 article-gen（Claude）、gpt4-gen、gemini-gen 包装成统一的 ContentProvider
+ */
+
+import {
+  ArticleGenerator,
+  analyzeArticle,
+  applyQualityReport,
+  clusterPromptVariables,
+  countWords,
+  slugify,
+  type ArticleTemplate,
+  type GeneratedArticle,
+  type KeywordInput,
+  type RefreshRequest
+} from '@seo-spy/article-gen';
+import { GPT4Generator, type GPT4Config } from '@seo-spy/gpt4-gen';
+import { GeminiGenerator, type GeminiConfig } from '@seo-spy/gemini-gen';
+import type { PromptUsage, PromptVariables } from '@seo-spy/prompts';
+import type { ContentProvider, ProviderOptions, ProviderRequest } from './index.js';
+
+export const DEFAULT_MODELS = {
+  claude: 'claude-3-5-sonnet-20241022',
+  openai: 'gpt-4-turbo-preview',
+  gemini: 'gemini-pro'
+} as const;
+
+export class ClaudeProvider implements ContentProvider {
+  readonly name = 'claude' as const;
+  readonly model: string;
+  private generator: ArticleGenerator;
+
+  constructor(options: ProviderOptions) {
+    this.model = options.model || DEFAULT_MODELS.claude;
+    this.generator = new ArticleGenerator({
+      apiKey: options.apiKey,
+      model: this.model,
+      budget: options.budget,
+      mode: options.mode,
+      prompts: options.prompts,
+      template: options.template,
+      stream: options.stream,
+      // 由 ContentGenerator 统一保存，这里不会写文件
+      outputDir: '',
+      keywords: []
+    });
+  }
+
+  generate(keyword: KeywordInput): Promise<GeneratedArticle> {
+    return this.generator.generateArticle(keyword);
+  }
+
+  refresh(request: RefreshRequest): Promise<string> {
+    return this.generator.refreshArticle(request);
+  }
+
+  buildRequests(keyword: KeywordInput): ProviderRequest[] {
+    return this.generator.buildRequests(keyword).map(request => ({
+      ...request,
+      provider: this.name,
+      service: 'anthropic',
+      action: 'messages.create'
+    }));
+  }
+}
+
+export class OpenAIProvider implements ContentProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  private generator: GPT4Generator;
+  private options: ProviderOptions;
+
+  constructor(options: ProviderOptions) {
+    this.options = options;
+    this.model = options.model || DEFAULT_MODELS.openai;
+    this.generator = new GPT4Generator({
+      apiKey: options.apiKey,
+      model: this.model as GPT4Config['model'],
+      budget: options.budget,
+      prompts: options.prompts,
+      stream: options.stream
+    });
+  }
+
+  async generate(keyword: KeywordInput): Promise<GeneratedArticle> {
+    const article = await this.generator.generateArticle(
+      keyword.keyword,
+      this.options.template.language,
+      promptVariables(keyword, this.options.template)
+    );
+    const { metadata } = article;
+
+    return toGeneratedArticle({
+      keyword: keyword.keyword,
+      model: this.model,
+      title: metadata.title,
+      slug: metadata.slug,
+      description: metadata.excerpt,
+      keywords: metadata.keywords,
+      category: metadata.category,
+      content: article.content,
+      prompts: metadata.prompts,
+      generation: metadata.generation
+    }, this.options.template);
+  }
+
+  refresh(request: RefreshRequest): Promise<string> {
+    return this.generator.refreshArticle(request.markdown, request.brief);
+  }
+
+  buildRequests(keyword: KeywordInput): ProviderRequest[] {
+    return [{
+      ...this.generator.buildRequest(
+        keyword.keyword,
+        this.options.template.language,
+        promptVariables(keyword, this.options.template)
+      ),
+      provider: this.name,
+      service: 'openai',
+      action: 'chat.completions.create'
+    }];
+  }
+}
+
+export class GeminiProvider implements ContentProvider {
+  readonly name = 'gemini' as const;
+  readonly model: string;
+  private generator: GeminiGenerator;
+  private options: ProviderOptions;
+
+  constructor(options: ProviderOptions) {
+    this.options = options;
+    this.model = options.model || DEFAULT_MODELS.gemini;
+    this.generator = new GeminiGenerator({
+      apiKey: options.apiKey,
+      model: this.model as GeminiConfig['model'],
+      budget: options.budget,
+      prompts: options.prompts
+    });
+  }
+
+  async generate(keyword: KeywordInput): Promise<GeneratedArticle> {
+    const article = await this.generator.generateArticle(
+      keyword.keyword,
+      this.options.template.language,
+      promptVariables(keyword, this.options.template)
+    );
+    const { metadata } = article;
+
+    return toGeneratedArticle({
+      keyword: keyword.keyword,
+      model: this.model,
+      title: metadata.title,
+      slug: metadata.slug,
+      description: metadata.excerpt,
+      keywords: metadata.keywords,
+      category: metadata.category,
+      content: article.content,
+      prompts: metadata.prompts,
+      generation: metadata.generation
+    }, this.options.template);
+  }
+
+  refresh(request: RefreshRequest): Promise<string> {
+    return this.generator.refreshArticle(request.markdown, request.brief);
+  }
+
+  buildRequests(keyword: KeywordInput): ProviderRequest[] {
+    return [{
+      ...this.generator.buildRequest(
+        keyword.keyword,
+        this.options.template.language,
+        promptVariables(keyword, this.options.template)
+      ),
+      system: '',
+      provider: this.name,
+      service: 'google-gemini',
+      action: 'generateContent'
+    }];
+  }
+}
+
+/**
+ * 把 GPT-4 / Gemini 的元数据转换成 article-gen 的文章结构（与 Astro posts 集合的 frontmatter 一致）
+ */
+function toGeneratedArticle(source: {
+  keyword: string;
+  model: string;
+  title: string;
+  slug: string;
+  description: string;
+  keywords: string[];
+  category: string;
+  content: string;
+  prompts?: PromptUsage[];
+  generation?: { promptHash: string; temperature: number; inputTokens: number; outputTokens: number; streams?: number };
+}, template: ArticleTemplate): GeneratedArticle {
+  const article: GeneratedArticle = {
+    slug: slugify(source.slug || source.title || source.keyword),
+    title: source.title,
+    content: source.content,
+    frontmatter: {
+      title: source.title,
+      description: source.description,
+      keywords: source.keywords,
+      date: new Date().toISOString().split('T')[0],
+      author: 'AI Author',
+      tags: source.category ? [source.category] : [],
+      // 由本地质量分析计算
+      seoScore: 0
+    },
+    metadata: {
+      keyword: source.keyword,
+      wordCount: countWords(source.content),
+      generatedAt: new Date().toISOString(),
+      model: source.model,
+      prompts: source.prompts,
+      passes: source.generation ? [{ pass: 'draft', model: source.model, ...source.generation, prompts: source.prompts }] : undefined,
+      stitched: source.generation?.streams ? true : undefined
+    }
+  };
+
+  return applyQualityReport(article, analyzeArticle(article, source.keyword, template));
+}
+
+/**
+ * GPT-4 / Gemini 模板变量：字数要求、领域和专题
+ */
+function promptVariables(keyword: KeywordInput, template: ArticleTemplate): PromptVariables {
+  return { ...clusterPromptVariables(keyword.cluster, template.language), minWords: template.minWords, niche: keyword.niche };
+}
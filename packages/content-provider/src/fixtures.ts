@@ -0,0 +1,43 @@
+/**
+ * Response Fixtures
+ * 录制与回放 - 把真实提供方生成的文章保存为 JSON，离线时由 mock 提供方按关键词回放
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import type { GeneratedArticle } from '@seo-spy/article-gen';
+
+export interface ArticleFixture {
+  keyword: string;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  article: GeneratedArticle;
+}
+
+/**
+ * 关键词对应的录制文件：<dir>/<sha1 前 12 位>.json（关键词可能是中文，不直接用作文件名）
+ */
+export function getFixturePath(dir: string, keyword: string): string {
+  const hash = createHash('sha1').update(keyword).digest('hex').slice(0, 12);
+  return join(process.cwd(), dir, `${hash}.json`);
+}
+
+export function loadFixture(dir: string, keyword: string): ArticleFixture | undefined {
+  const fixturePath = getFixturePath(dir, keyword);
+  if (!existsSync(fixturePath)) {
+    return undefined;
+  }
+
+  return JSON.parse(readFileSync(fixturePath, 'utf-8'));
+}
+
+export function saveFixture(dir: string, fixture: ArticleFixture): string {
+  mkdirSync(join(process.cwd(), dir), { recursive: true });
+
+  const fixturePath = getFixturePath(dir, fixture.keyword);
+  writeFileSync(fixturePath, JSON.stringify(fixture, null, 2));
+
+  return fixturePath;
+}
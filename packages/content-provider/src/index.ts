@@ -0,0 +1,369 @@
+/**
+ * @seo-spy/content-provider - Unified Content Providers
+ * 统一的内容提供方：Claude、GPT-4、Gemini 和本地 mock 使用同一接口并返回同一文章结构，可按站点或关键词选择
+ */
+
+import { join } from 'path';
+import {
+  applyClusterContext,
+  buildProvenance,
+  createDuplicateDetector,
+  createSlugService,
+  generateWithQualityGate,
+  quarantineArticle,
+  screenArticle,
+  saveArticle,
+  saveProvenance,
+  writeArticleIndex,
+  type ArticleRequest,
+  type ArticleTemplate,
+  type DedupeConfig,
+  type DuplicateDetector,
+  type DuplicatePair,
+  type GeneratedArticle,
+  type GenerationMode,
+  type GenerationOutcome,
+  type KeywordInput,
+  type QualityGateConfig,
+  type RefreshRequest,
+  type SlugOptions,
+  type SlugService,
+  type StreamRecoveryOptions
+} from '@seo-spy/article-gen';
+import { isBudgetError, type BudgetTracker } from '@seo-spy/llm-budget';
+import type { PromptLibrary } from '@seo-spy/prompts';
+import { DEFAULT_RATE_LIMIT, TaskQueue, type RateLimit, type TaskQueueOptions } from '@seo-spy/task-queue';
+import { ClaudeProvider, GeminiProvider, OpenAIProvider } from './adapters.js';
+import { saveFixture } from './fixtures.js';
+import { MockProvider } from './mock.js';
+
+export { ClaudeProvider, GeminiProvider, OpenAIProvider, DEFAULT_MODELS } from './adapters.js';
+export { MockProvider } from './mock.js';
+export { getFixturePath, loadFixture, saveFixture, type ArticleFixture } from './fixtures.js';
+export type { GeneratedArticle, GenerationMode, KeywordInput, ArticleTemplate, RefreshRequest } from '@seo-spy/article-gen';
+
+// ============================================
+// Types & Interfaces / 类型定义
+// ============================================
+
+// mock 为本地模拟提供方，用于离线和 CI 运行
+export type ProviderName = 'claude' | 'openai' | 'gemini' | 'mock';
+
+export const PROVIDER_NAMES: ProviderName[] = ['claude', 'openai', 'gemini', 'mock'];
+
+export interface ProviderOptions {
+  apiKey: string;
+  // 未设置时使用各提供方的默认模型
+  model?: string;
+  template: ArticleTemplate;
+  // 设置后每次调用前检查预算并记录 token 用量
+  budget?: BudgetTracker;
+  // 仅 claude：multi-pass 分大纲、逐节、修订多次调用
+  mode?: GenerationMode;
+  // 提示词模板库（mock 不使用提示词）
+  prompts?: PromptLibrary;
+  // 仅 mock：回放录制响应的目录，没有录制的关键词按种子生成
+  fixturesDir?: string;
+  // 仅 mock：随机种子，同一种子和关键词生成的文章相同
+  seed?: number;
+  // 仅 claude / openai：流式生成的部分输出目录和断开后的最多续写次数
+  stream?: StreamRecoveryOptions;
+}
+
+/**
+ * 一次文章生成请求（plan 模式下用于记录调用和估算成本）
+ */
+export interface ProviderRequest extends ArticleRequest {
+  provider: ProviderName;
+  // 外部服务和接口，如 anthropic / messages.create
+  service: string;
+  action: string;
+}
+
+export interface ContentProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  generate(keyword: KeywordInput): Promise<GeneratedArticle>;
+  // 一篇文章预计发出的全部请求，构建但不发送
+  buildRequests(keyword: KeywordInput): ProviderRequest[];
+  // 按改写说明更新已有文章，返回新的 Markdown 正文
+  refresh(request: RefreshRequest): Promise<string>;
+}
+
+/**
+ * 按关键词选择提供方：match 为子串（不区分大小写）或 /正则/
+ */
+export interface ProviderRule {
+  match: string;
+  provider: ProviderName;
+  model?: string;
+}
+
+export interface ProviderSelection {
+  provider: ProviderName;
+  model?: string;
+  // 按顺序匹配，第一条命中的规则生效
+  rules?: ProviderRule[];
+}
+
+/**
+ * 录制 / 回放：record 把真实提供方的结果保存到 dir，replay 让 mock 提供方从 dir 读取
+ */
+export interface FixtureOptions {
+  dir: string;
+  mode: 'record' | 'replay';
+  // mock 的随机种子
+  seed?: number;
+}
+
+export interface ContentGeneratorConfig {
+  outputDir: string;
+  template: ArticleTemplate;
+  selection: ProviderSelection;
+  apiKeys: Partial<Record<ProviderName, string>>;
+  budget?: BudgetTracker;
+  fixtures?: FixtureOptions;
+  mode?: GenerationMode;
+  prompts?: PromptLibrary;
+  // 所有提供方共用的质量门禁
+  quality?: QualityGateConfig;
+  // 保存前与已有文章比较，拦截近似重复
+  dedupe?: DedupeConfig;
+  queue?: GenerationQueueOptions;
+  // slug 生成方式和最大长度；关键词 → slug 记录在 <outputDir>/slugs.json，重新生成时 URL 不变
+  slugs?: SlugOptions;
+  // 流水线运行 ID，写入每篇文章的溯源记录
+  runId?: string;
+  // 流式生成：部分输出默认保存在 <outputDir>/partial，流断开时从最后一个完整小节续写
+  stream?: StreamRecoveryOptions;
+}
+
+/**
+ * 批量生成队列：并发、重试和按提供方的限流（未配置的提供方每分钟 60 次，mock 不限流）
+ * 状态默认保存在 <outputDir>/queue/generation，中断的批次下次运行时跳过已完成的关键词
+ */
+export interface GenerationQueueOptions extends Omit<TaskQueueOptions, 'isFatal' | 'rateLimits'> {
+  rateLimits?: Partial<Record<ProviderName, RateLimit>>;
+}
+
+// ============================================
+// Provider Factory / 提供方工厂
+// ============================================
+
+export function createContentProvider(name: ProviderName, options: ProviderOptions): ContentProvider {
+  switch (name) {
+    case 'claude':
+      return new ClaudeProvider(options);
+    case 'openai':
+      return new OpenAIProvider(options);
+    case 'gemini':
+      return new GeminiProvider(options);
+    case 'mock':
+      return new MockProvider(options);
+    default:
+      throw new Error(`Unknown content provider: ${name}. Expected one of ${PROVIDER_NAMES.join(', ')}`);
+  }
+}
+
+export function matchesRule(rule: ProviderRule, keyword: string): boolean {
+  const regex = rule.match.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    return new RegExp(regex[1], regex[2]).test(keyword);
+  }
+
+  return keyword.toLowerCase().includes(rule.match.toLowerCase());
+}
+
+// ============================================
+// Content Generator / 批量生成
+// ============================================
+
+export class ContentGenerator {
+  private config: ContentGeneratorConfig;
+  private providers: Map<string, ContentProvider> = new Map();
+  private unprocessed: KeywordInput[] = [];
+  private quarantined: GeneratedArticle[] = [];
+  private duplicates: DuplicatePair[] = [];
+  private detector?: DuplicateDetector;
+  private slugs?: SlugService;
+
+  constructor(config: ContentGeneratorConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 关键词对应的提供方（同一提供方和模型只创建一次）
+   */
+  getProvider(keyword: string): ContentProvider {
+    const { selection, fixtures } = this.config;
+    const rule = selection.rules?.find(r => matchesRule(r, keyword));
+    const name = rule?.provider || selection.provider;
+    const model = rule ? rule.model : selection.model;
+    const key = `${name}:${model || 'default'}`;
+
+    let provider = this.providers.get(key);
+    if (!provider) {
+      provider = createContentProvider(name, {
+        apiKey: this.config.apiKeys[name] || '',
+        model,
+        template: this.config.template,
+        budget: this.config.budget,
+        mode: this.config.mode,
+        prompts: this.config.prompts,
+        fixturesDir: fixtures?.mode === 'replay' ? fixtures.dir : undefined,
+        seed: fixtures?.seed,
+        stream: { partialDir: join(this.config.outputDir, 'partial'), ...this.config.stream }
+      });
+      this.providers.set(key, provider);
+    }
+
+    return provider;
+  }
+
+  /**
+   * 这批关键词会用到的提供方（用于提前校验 API key）
+   */
+  getProviderNames(keywords: KeywordInput[]): ProviderName[] {
+    return [...new Set(keywords.map(keyword => this.getProvider(keyword.keyword).name))];
+  }
+
+  async generateAll(keywords: KeywordInput[]): Promise<GeneratedArticle[]> {
+    console.log('🤖 Starting article generation...');
+
+    const articles: GeneratedArticle[] = [];
+    this.unprocessed = [];
+    this.quarantined = [];
+    this.duplicates = [];
+
+    const { rateLimits, ...queueOptions } = this.config.queue || {};
+    // 预算用尽时停止队列，剩余关键词留给下一次运行
+    const queue = new TaskQueue<KeywordInput, GenerationOutcome>({
+      stateDir: join(this.config.outputDir, 'queue', 'generation'),
+      ...queueOptions,
+      // 本地 mock 不限流
+      rateLimits: {
+        claude: DEFAULT_RATE_LIMIT,
+        openai: DEFAULT_RATE_LIMIT,
+        gemini: DEFAULT_RATE_LIMIT,
+        ...rateLimits
+      },
+      isFatal: isBudgetError
+    });
+    const result = await queue.run(
+      keywords.map(keywordData => ({
+        id: keywordData.keyword,
+        data: keywordData,
+        limiter: this.getProvider(keywordData.keyword).name
+      })),
+      keywordData => this.processKeyword(keywordData)
+    );
+
+    for (const { result: outcome } of result.completed) {
+      if (outcome.duplicate) {
+        this.duplicates.push(outcome.duplicate);
+      }
+
+      if (outcome.status === 'saved') {
+        articles.push(outcome.article);
+      } else if (outcome.status === 'quarantined') {
+        this.quarantined.push(outcome.article);
+      }
+    }
+
+    for (const { job, error } of result.failed) {
+      console.error(`❌ Failed to generate article for "${job.id}" with ${job.limiter}:`, error);
+    }
+
+    if (result.stoppedBy) {
+      this.unprocessed = result.pending.map(job => job.data);
+      console.warn(`💸 ${result.stoppedBy.message}, stopping with ${this.unprocessed.length} keyword(s) unprocessed`);
+    }
+
+    writeArticleIndex(this.config.outputDir, articles);
+
+    console.log(`\n🎉 Generated ${articles.length} articles`);
+    return articles;
+  }
+
+  /**
+   * 生成一篇文章并经过质量门禁和去重，通过的文章保存到 outputDir（录制模式下同时保存 fixture）
+   */
+  private async processKeyword(keywordData: KeywordInput): Promise<GenerationOutcome> {
+    const provider = this.getProvider(keywordData.keyword);
+    const { cluster } = keywordData;
+    const { article: generated, report, passed } = await generateWithQualityGate(
+      keywordData.keyword,
+      async () => {
+        const generated = await provider.generate(keywordData);
+        return cluster ? applyClusterContext(generated, cluster, this.config.template.language) : generated;
+      },
+      this.config.template,
+      this.config.quality
+    );
+
+    if (!passed) {
+      quarantineArticle(this.config.outputDir, generated, report);
+      return { article: generated, status: 'quarantined' };
+    }
+
+    // 通过门禁后分配最终 slug：已注册的关键词沿用原 slug，新关键词避开已占用的 slug
+    this.slugs ??= createSlugService(this.config.outputDir, this.config.slugs);
+    const article = { ...generated, slug: this.slugs.assign(keywordData.keyword, generated.title, generated.slug) };
+
+    const duplicate = this.screen(article);
+    if (duplicate && this.config.dedupe?.onDuplicate !== 'warn') {
+      return { article, status: 'duplicate', duplicate };
+    }
+
+    saveArticle(this.config.outputDir, article);
+    saveProvenance(this.config.outputDir, buildProvenance(article, { provider: provider.name, runId: this.config.runId }));
+
+    if (this.config.fixtures?.mode === 'record' && provider.name !== 'mock') {
+      saveFixture(this.config.fixtures.dir, {
+        keyword: keywordData.keyword,
+        provider: provider.name,
+        model: provider.model,
+        recordedAt: new Date().toISOString(),
+        article
+      });
+    }
+
+    console.log(`✅ Generated with ${provider.name} (${provider.model}, score ${report.score}): ${article.title}`);
+    return { article, status: 'saved', duplicate };
+  }
+
+  /**
+   * 上一次 generateAll 因预算用尽而未处理的关键词
+   */
+  getUnprocessedKeywords(): KeywordInput[] {
+    return this.unprocessed;
+  }
+
+  /**
+   * 上一次 generateAll 中未通过质量门禁而被隔离的文章
+   */
+  getQuarantinedArticles(): GeneratedArticle[] {
+    return this.quarantined;
+  }
+
+  /**
+   * 上一次 generateAll 中发现的近似重复（含建议保留的文章）
+   */
+  getDuplicates(): DuplicatePair[] {
+    return this.duplicates;
+  }
+
+  /**
+   * 开启去重时与已有文章比较，重复时返回最相似的一对
+   */
+  private screen(article: GeneratedArticle): DuplicatePair | undefined {
+    const { dedupe, outputDir } = this.config;
+    if (!dedupe) {
+      return undefined;
+    }
+
+    this.detector ??= createDuplicateDetector(outputDir, dedupe);
+
+    return screenArticle(this.detector, article, dedupe);
+  }
+}
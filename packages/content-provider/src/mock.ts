@@ -0,0 +1,203 @@
+/**
+ * Mock Provider
+ * 本地模拟提供方 - 不联网、不需要 API key，按关键词和种子生成确定的文章，或回放录制的响应
+ */
+
+import { createHash } from 'crypto';
+import {
+  analyzeArticle,
+  applyQualityReport,
+  countWords,
+  postFrontmatterSchema,
+  slugify,
+  type GeneratedArticle,
+  type KeywordInput,
+  type RefreshRequest
+} from '@seo-spy/article-gen';
+import { estimateTokens } from '@seo-spy/llm-budget';
+import { hashPrompt } from '@seo-spy/prompts';
+import { loadFixture } from './fixtures.js';
+import type { ContentProvider, ProviderOptions, ProviderRequest } from './index.js';
+
+// 固定日期，保证同一关键词每次生成的文章完全一致
+const MOCK_DATE = '2024-01-01';
+
+const COPY = {
+  'zh-CN': {
+    title: (keyword: string) => `${keyword}：从入门到实战`,
+    description: (keyword: string) => `一文讲清${keyword}的核心概念、常见问题和最佳实践，附完整代码示例。`,
+    sections: ['问题背景', '核心概念', '实战示例', '最佳实践', '常见问题', '总结'],
+    update: (keyword: string) => `本文已根据${keyword}的最新进展更新，补充了新的示例和注意事项。`,
+    sentences: [
+      (keyword: string) => `很多开发者在项目中第一次遇到${keyword}时都会感到困惑。`,
+      (keyword: string) => `理解${keyword}背后的原理，比记住某个具体的写法更重要。`,
+      (keyword: string) => `下面我们结合实际场景，一步步拆解${keyword}的关键细节。`,
+      (keyword: string) => `在生产环境中处理${keyword}时，需要同时考虑性能和可维护性。`,
+      (keyword: string) => `如果团队对${keyword}有统一的约定，排查问题会容易得多。`,
+      (keyword: string) => `掌握${keyword}之后，可以把同样的思路应用到更多类似的问题上。`
+    ]
+  },
+  'en-US': {
+    title: (keyword: string) => `${keyword}: A Practical Guide`,
+    description: (keyword: string) => `Everything you need to know about ${keyword}, with common pitfalls, best practices and working code examples.`,
+    sections: ['Background', 'Core Concepts', 'Hands-on Examples', 'Best Practices', 'Common Questions', 'Summary'],
+    update: (keyword: string) => `This article has been updated with the latest ${keyword} changes, new examples and caveats.`,
+    sentences: [
+      (keyword: string) => `Many developers are confused the first time they run into ${keyword}.`,
+      (keyword: string) => `Understanding why ${keyword} works the way it does matters more than memorizing a snippet.`,
+      (keyword: string) => `Let's walk through ${keyword} step by step using a realistic scenario.`,
+      (keyword: string) => `In production, handling ${keyword} well means balancing performance and maintainability.`,
+      (keyword: string) => `Agreeing on conventions for ${keyword} makes debugging far easier for the whole team.`,
+      (keyword: string) => `Once you are comfortable with ${keyword}, the same approach applies to many related problems.`
+    ]
+  }
+};
+
+export class MockProvider implements ContentProvider {
+  readonly name = 'mock' as const;
+  readonly model: string;
+  private options: ProviderOptions;
+
+  constructor(options: ProviderOptions) {
+    this.options = options;
+    this.model = options.model || 'mock';
+  }
+
+  async generate(keyword: KeywordInput): Promise<GeneratedArticle> {
+    const [request] = this.buildRequests(keyword);
+    const { budget, fixturesDir } = this.options;
+
+    // 走一遍预算检查和记账（mock 模型单价为 0），便于离线验证预算流程
+    const reservation = budget?.reserve(budget.estimate(this.model, estimateTokens(request.prompt), request.maxTokens));
+
+    const fixture = fixturesDir ? loadFixture(fixturesDir, keyword.keyword) : undefined;
+    const article = fixture ? fixture.article : this.createArticle(keyword.keyword);
+    const usage = { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(article.content) };
+
+    if (budget && reservation) {
+      budget.settle(reservation, { model: this.model, ...usage }, 'mock');
+    }
+
+    // 回放的录制文件保留录制时真实提供方的调用记录
+    if (!fixture) {
+      article.metadata.passes = [{ pass: 'draft', model: this.model, promptHash: hashPrompt(request.system, request.prompt), ...usage }];
+    }
+
+    // 回放的录制文件也必须符合 posts 集合的 frontmatter 模式
+    postFrontmatterSchema.parse(article.frontmatter);
+
+    return article;
+  }
+
+  /**
+   * 在原文末尾追加固定的更新说明，保留原有内容和链接
+   */
+  async refresh(request: RefreshRequest): Promise<string> {
+    const { budget, template } = this.options;
+    const copy = COPY[template.language] || COPY['en-US'];
+    const refreshed = `${request.markdown.trim()}\n\n> ${copy.update(request.keyword)}\n`;
+
+    const reservation = budget?.reserve(budget.estimate(this.model, estimateTokens(request.markdown), estimateTokens(refreshed)));
+    if (budget && reservation) {
+      budget.settle(reservation, {
+        model: this.model,
+        inputTokens: estimateTokens(request.markdown) + estimateTokens(request.brief),
+        outputTokens: estimateTokens(refreshed)
+      }, 'mock');
+    }
+
+    return refreshed;
+  }
+
+  buildRequests(keyword: KeywordInput): ProviderRequest[] {
+    return [{
+      provider: this.name,
+      service: 'mock',
+      action: 'generate',
+      model: this.model,
+      maxTokens: 4096,
+      system: '',
+      prompt: keyword.keyword
+    }];
+  }
+
+  /**
+   * 按关键词和种子生成文章，正文长度达到 template.minWords（中文按字数计）
+   */
+  private createArticle(keyword: string): GeneratedArticle {
+    const { template } = this.options;
+    const copy = COPY[template.language] || COPY['en-US'];
+    const random = createRandom(`${this.options.seed ?? 0}:${keyword}`);
+    const paragraph = () => Array.from(
+      { length: 3 },
+      () => copy.sentences[Math.floor(random() * copy.sentences.length)](keyword)
+    ).join(template.language === 'zh-CN' ? '' : ' ');
+
+    const title = copy.title(keyword);
+    const blocks: string[] = [paragraph()];
+
+    for (const section of copy.sections) {
+      blocks.push(`## ${section}`, paragraph());
+
+      if (section === copy.sections[2] && template.includeCodeExamples) {
+        blocks.push([
+          '```typescript',
+          `// ${keyword}`,
+          `export function example${Math.floor(random() * 1000)}(input: string): string {`,
+          '  return input.trim();',
+          '}',
+          '```'
+        ].join('\n'));
+      }
+    }
+
+    // 不足最少字数时在最佳实践部分补充段落
+    const practices = blocks.indexOf(`## ${copy.sections[3]}`) + 2;
+    for (let i = 0; i < 200 && countWords(blocks.join('\n\n')) < template.minWords; i++) {
+      blocks.splice(practices, 0, paragraph());
+    }
+
+    const content = blocks.join('\n\n');
+    const article: GeneratedArticle = {
+      slug: slugify(`${keyword}-${hash(keyword).slice(0, 6)}`),
+      title,
+      content,
+      frontmatter: {
+        title,
+        description: copy.description(keyword),
+        keywords: [keyword],
+        date: MOCK_DATE,
+        author: 'AI Author',
+        tags: ['mock'],
+        seoScore: 0
+      },
+      metadata: {
+        keyword,
+        wordCount: countWords(content),
+        generatedAt: `${MOCK_DATE}T00:00:00.000Z`,
+        model: this.model
+      }
+    };
+
+    return applyQualityReport(article, analyzeArticle(article, keyword, template));
+  }
+}
+
+/**
+ * 基于字符串种子的确定性随机数（mulberry32）
+ */
+function createRandom(seed: string): () => number {
+  let state = parseInt(hash(seed).slice(0, 8), 16);
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hash(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
@@ -8,9 +8,9 @@
 import archiver from 'archiver';
 import { writeFileSync, mkdirSync, existsSync, createWriteStream, readFileSync } from 'fs';
 import { join } from 'path';
-import { readdirSync, statSync } from 'fs';
+import { readdirSync, statSync, unlinkSync } from 'fs';
 
-interface SyncConfig {
+export interface SyncConfig {
   dataDir: string;
   backupDir: string;
   maxBackups: number;
@@ -145,7 +145,6 @@ export class DataSyncManager {
         deletedSize += stats.size;
 
         // 删除文件
-        const { unlinkSync } = require('fs');
         unlinkSync(backupPath);
         unlinkSync(manifestPath);
 
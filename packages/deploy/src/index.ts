@@ -9,7 +9,7 @@ import axios from 'axios';
 import { readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
 
-interface DeployConfig {
+export interface DeployConfig {
   platform: 'cloudflare' | 'vercel';
   apiToken: string;
   projectName?: string;
@@ -18,7 +18,7 @@ interface DeployConfig {
   sites: SiteConfig[];
 }
 
-interface SiteConfig {
+export interface SiteConfig {
   name: string;
   domain: string;
   sourceDir: string;
@@ -26,7 +26,7 @@ interface SiteConfig {
   envVars?: Record<string, string>;
 }
 
-interface DeploymentResult {
+export interface DeploymentResult {
   site: string;
   status: 'success' | 'failed';
   url?: string;
@@ -34,6 +34,22 @@ interface DeploymentResult {
   deployId?: string;
 }
 
+// 回滚只用到部署列表里的这几个字段
+interface CloudflareDeploymentList {
+  result: Array<{
+    id: string;
+    url: string;
+    latest_stage?: { status: string };
+  }>;
+}
+
+interface VercelDeploymentList {
+  deployments: Array<{
+    uid: string;
+    url: string;
+  }>;
+}
+
 export class DeploymentManager {
   private config: DeployConfig;
 
@@ -181,6 +197,98 @@ export class DeploymentManager {
     }
   }
 
+  /**
+   * 回滚站点：把生产环境切回 deployId 之前的最近一次成功部署
+   * 没有 deployId 时无法区分刚发布的版本，直接报错而不是回滚到最新部署
+   */
+  async rollbackSite(site: SiteConfig, deployId: string): Promise<DeploymentResult> {
+    if (!deployId) {
+      throw new Error(`Cannot roll back ${site.name}: the deployment to roll back from is unknown`);
+    }
+
+    if (this.config.platform === 'cloudflare') {
+      return this.rollbackCloudflare(site, deployId);
+    } else {
+      return this.rollbackVercel(site, deployId);
+    }
+  }
+
+  private async rollbackCloudflare(site: SiteConfig, deployId: string): Promise<DeploymentResult> {
+    if (!this.config.accountSlug) {
+      throw new Error('Cloudflare accountSlug is required');
+    }
+
+    const apiUrl = `https://api.cloudflare.com/client/v4/accounts/${this.config.accountSlug}/pages/projects/${site.name}/deployments`;
+    const headers = {
+      'Authorization': `Bearer ${this.config.apiToken}`,
+      'Content-Type': 'application/json'
+    };
+
+    try {
+      // 部署列表按时间倒序
+      const response = await axios.get<CloudflareDeploymentList>(apiUrl, { headers, params: { env: 'production' } });
+      const previous = response.data.result.find(
+        deployment => deployment.id !== deployId && deployment.latest_stage?.status === 'success'
+      );
+
+      if (!previous) {
+        throw new Error(`No previous successful deployment to roll back to for ${site.name}`);
+      }
+
+      await axios.post(`${apiUrl}/${previous.id}/rollback`, {}, { headers });
+
+      return {
+        site: site.name,
+        status: 'success',
+        url: previous.url,
+        deployId: previous.id
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Cloudflare API error: ${error.response?.data?.errors?.[0]?.message || error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private async rollbackVercel(site: SiteConfig, deployId: string): Promise<DeploymentResult> {
+    const project = this.config.projectName || site.name;
+    const headers = {
+      'Authorization': `Bearer ${this.config.apiToken}`,
+      'Content-Type': 'application/json'
+    };
+    const teamParams = this.config.teamId ? { teamId: this.config.teamId } : {};
+
+    try {
+      const response = await axios.get<VercelDeploymentList>('https://api.vercel.com/v6/deployments', {
+        headers,
+        params: { projectId: project, target: 'production', state: 'READY', ...teamParams }
+      });
+      const previous = response.data.deployments.find(deployment => deployment.uid !== deployId);
+
+      if (!previous) {
+        throw new Error(`No previous successful deployment to roll back to for ${site.name}`);
+      }
+
+      await axios.post(`https://api.vercel.com/v9/projects/${project}/rollback/${previous.uid}`, {}, {
+        headers,
+        params: teamParams
+      });
+
+      return {
+        site: site.name,
+        status: 'success',
+        url: previous.url,
+        deployId: previous.uid
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Vercel API error: ${error.response?.data?.error?.message || error.message}`);
+      }
+      throw error;
+    }
+  }
+
   private saveDeploymentLog(results: DeploymentResult[]): void {
     const logsDir = join(process.cwd(), 'data/logs');
     mkdirSync(logsDir, { recursive: true });
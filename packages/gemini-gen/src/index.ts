@@ -6,31 +6,71 @@
  */
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { estimateTokens, isBudgetError, type BudgetTracker, type TokenUsage } from '@seo-spy/llm-budget';
+import { PromptLibrary, hashPrompt, type PromptUsage, type PromptVariables } from '@seo-spy/prompts';
+import { DEFAULT_RATE_LIMIT, TaskQueue, type TaskQueueOptions } from '@seo-spy/task-queue';
 
-interface GeminiConfig {
+export interface GeminiConfig {
   apiKey: string;
   model?: 'gemini-pro' | 'gemini-ultra';
   temperature?: number;
   maxTokens?: number;
+  // 设置后每次调用前检查预算并记录 token 用量
+  budget?: BudgetTracker;
+  // 提示词模板库（gemini-gen.article），默认使用包内模板
+  prompts?: PromptLibrary;
+  // generateBatch 的并发、限流（限流器名为 gemini）和重试；设置 stateDir 后中断的批次可续跑
+  queue?: Omit<TaskQueueOptions, 'isFatal'>;
 }
 
-interface ArticleMetadata {
+export interface ArticleMetadata {
   title: string;
   slug: string;
   excerpt: string;
   keywords: string[];
   category: string;
   readingTime: number;
+  // 生成本文所用的提示词模板版本
+  prompts?: PromptUsage[];
+  // 生成请求的记录（完整提示词哈希、温度和估算的 token 用量），用于溯源
+  generation?: GenerationRecord;
 }
 
-interface GeneratedArticle {
+export interface GenerationRecord {
+  promptHash: string;
+  temperature: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface GeneratedArticle {
   metadata: ArticleMetadata;
   content: string;
 }
 
+/**
+ * 一次文章生成请求（dry-run 时用于估算 token 成本）
+ */
+export interface ArticleRequest {
+  model: string;
+  maxTokens: number;
+  prompt: string;
+  prompts?: PromptUsage[];
+}
+
+// API 响应中的用量字段（当前 SDK 类型中没有声明）
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+}
+
 export class GeminiGenerator {
   private genAI: GoogleGenerativeAI;
-  private config: Required<GeminiConfig>;
+  private config: Required<Omit<GeminiConfig, 'budget' | 'prompts' | 'queue'>>;
+  private budget?: BudgetTracker;
+  private prompts: PromptLibrary;
+  private queue?: Omit<TaskQueueOptions, 'isFatal'>;
+  private unprocessed: string[] = [];
 
   constructor(config: GeminiConfig) {
     this.config = {
@@ -39,25 +79,33 @@ export class GeminiGenerator {
       temperature: config.temperature || 0.7,
       maxTokens: config.maxTokens || 4096
     };
+    this.budget = config.budget;
+    this.prompts = config.prompts || new PromptLibrary();
+    this.queue = config.queue;
 
     this.genAI = new GoogleGenerativeAI(this.config.apiKey);
   }
 
   /**
    * 生成文章
+   * variables 覆盖模板变量，如 minWords（默认 1500）、niche
    */
-  async generateArticle(keyword: string, locale: string = 'en-US'): Promise<GeneratedArticle> {
+  async generateArticle(keyword: string, locale: string = 'en-US', variables: PromptVariables = {}): Promise<GeneratedArticle> {
     console.log(`🌟 Generating article with Google Gemini for: "${keyword}"\n`);
 
-    const prompt = this.getGeneratePrompt(keyword, locale);
-    const model = this.genAI.getGenerativeModel({ model: this.config.model });
+    const { prompt, prompts } = this.buildRequest(keyword, locale, variables);
 
     try {
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
+      const text = await this.complete(prompt);
 
       const article = this.parseArticle(text, keyword);
+      article.metadata.prompts = prompts;
+      article.metadata.generation = {
+        promptHash: hashPrompt(prompt),
+        temperature: this.config.temperature,
+        inputTokens: estimateTokens(prompt),
+        outputTokens: estimateTokens(text)
+      };
 
       console.log(`✅ Article generated successfully!`);
       console.log(`   Title: ${article.metadata.title}`);
@@ -70,6 +118,20 @@ export class GeminiGenerator {
     }
   }
 
+  /**
+   * 构建请求但不发送
+   */
+  buildRequest(keyword: string, locale: string = 'en-US', variables: PromptVariables = {}): ArticleRequest {
+    const { text, templates } = this.prompts.render('gemini-gen.article', { minWords: 1500, ...variables, keyword }, locale);
+
+    return {
+      model: this.config.model,
+      maxTokens: this.config.maxTokens,
+      prompt: text,
+      prompts: templates
+    };
+  }
+
   /**
    * 批量生成
    */
@@ -78,22 +140,31 @@ export class GeminiGenerator {
 
     const articles: GeneratedArticle[] = [];
     const startTime = Date.now();
+    this.unprocessed = [];
+
+    // 预算用尽时停止队列，剩余关键词留给下一次运行
+    const queue = new TaskQueue<string, GeneratedArticle>({
+      rateLimits: { gemini: DEFAULT_RATE_LIMIT },
+      ...this.queue,
+      isFatal: isBudgetError
+    });
+    const result = await queue.run(
+      keywords.map(keyword => ({ id: keyword, data: keyword, limiter: 'gemini' })),
+      keyword => {
+        console.log(`[${keywords.indexOf(keyword) + 1}/${keywords.length}] Processing: "${keyword}"`);
+        return this.generateArticle(keyword, locale);
+      }
+    );
 
-    for (let i = 0; i < keywords.length; i++) {
-      const keyword = keywords[i];
-      console.log(`[${i + 1}/${keywords.length}] Processing: "${keyword}"`);
+    articles.push(...result.completed.map(entry => entry.result));
 
-      try {
-        const article = await this.generateArticle(keyword, locale);
-        articles.push(article);
+    for (const { job, error } of result.failed) {
+      console.error(`   ❌ Failed "${job.id}": ${error.message}\n`);
+    }
 
-        // 延迟避免速率限制
-        if (i < keywords.length - 1) {
-          await this.sleep(1000);
-        }
-      } catch (error: any) {
-        console.error(`   ❌ Failed: ${error.message}\n`);
-      }
+    if (result.stoppedBy) {
+      this.unprocessed = result.pending.map(job => job.data);
+      console.warn(`   💸 ${result.stoppedBy.message}, ${this.unprocessed.length} keyword(s) unprocessed\n`);
     }
 
     const duration = ((Date.now() - startTime) / 1000).toFixed(1);
@@ -117,12 +188,9 @@ export class GeminiGenerator {
     };
 
     const prompt = `${optimizationPrompts[focus]}\n\nContent:\n\n${content}`;
-    const model = this.genAI.getGenerativeModel({ model: this.config.model });
 
     try {
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const optimized = response.text();
+      const optimized = await this.complete(prompt);
 
       console.log('✅ Content optimized successfully!\n');
 
@@ -134,58 +202,56 @@ export class GeminiGenerator {
   }
 
   /**
-   * 获取生成提示词
+   * 按改写说明更新已有文章，保留站内链接
    */
-  private getGeneratePrompt(keyword: string, locale: string): string {
-    if (locale === 'zh-CN') {
-      return `写一篇关于"${keyword}"的全面、SEO优化的文章。
-
-要求：
-- 至少1500字
-- 包括引言、5-7个主要章节和结论
-- 使用项目符号、编号列表和表格
-- 包括FAQ部分
-- 添加SEO元数据建议
+  async refreshArticle(content: string, brief: string): Promise<string> {
+    return this.complete(
+      `Update this article following the brief below. Keep every internal link target unchanged, do not add frontmatter, and return only the full updated Markdown body.\n\nBrief:\n${brief}\n\nArticle:\n\n${content}`
+    );
+  }
 
-请按以下格式输出：
----
-# 标题
+  /**
+   * 上一次 generateBatch 因预算用尽而未处理的关键词
+   */
+  getUnprocessedKeywords(): string[] {
+    return this.unprocessed;
+  }
 
-摘要: [文章摘要]
+  /**
+   * 调用 Gemini 生成文本，调用前预留预算，调用后记录 token 用量
+   * 优先使用响应中的 usageMetadata，没有时按文本长度估算
+   */
+  private async complete(prompt: string): Promise<string> {
+    const inputTokens = estimateTokens(prompt);
+    const reservation = this.budget?.reserve(this.budget.estimate(this.config.model, inputTokens, this.config.maxTokens));
+    let used: TokenUsage | undefined;
 
-关键词: [关键词1, 关键词2, 关键词3]
+    try {
+      const model = this.genAI.getGenerativeModel({
+        model: this.config.model,
+        generationConfig: { temperature: this.config.temperature, maxOutputTokens: this.config.maxTokens }
+      });
+      const result = await model.generateContent(prompt);
+      const response = await result.response;
 
-分类: [文章分类]
+      // 先记下用量：内容被拦截时 text() 会抛错，但这次调用已经计费
+      const metadata = (response as { usageMetadata?: GeminiUsageMetadata }).usageMetadata;
+      used = {
+        model: this.config.model,
+        inputTokens: metadata?.promptTokenCount ?? inputTokens,
+        outputTokens: metadata?.candidatesTokenCount ?? 0
+      };
 
-## 正文内容
+      const text = response.text();
+      used.outputTokens = metadata?.candidatesTokenCount ?? estimateTokens(text);
 
-[完整的markdown格式文章内容]
----`;
+      return text;
+    } finally {
+      // 请求没有得到响应时只释放预留
+      if (this.budget && reservation) {
+        this.budget.settle(reservation, used, 'gemini-gen');
+      }
     }
-
-    return `Write a comprehensive, SEO-optimized article about: "${keyword}"
-
-Requirements:
-- Minimum 1500 words
-- Include an introduction, 5-7 main sections, and a conclusion
-- Use bullet points, numbered lists, and tables where appropriate
-- Include an FAQ section
-- Suggest a meta title (60 chars max) and description (160 chars max)
-
-Please format your output as:
----
-# Title
-
-Summary: [Article summary]
-
-Keywords: [keyword1, keyword2, keyword3]
-
-Category: [article category]
-
-## Body Content
-
-[Full article in markdown format]
----`;
   }
 
   /**
@@ -243,13 +309,6 @@ Category: [article category]
     };
   }
 
-  /**
-   * 延迟函数
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * 演示功能
    */
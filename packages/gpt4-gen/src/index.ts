@@ -6,15 +6,34 @@
  */
 
 import OpenAI from 'openai';
+import { estimateCost, estimateTokens, isBudgetError, type BudgetTracker, type TokenUsage } from '@seo-spy/llm-budget';
+import { streamWithRecovery, type StreamRecoveryOptions } from '@seo-spy/llm-stream';
+import { PromptLibrary, hashPrompt, mergePromptUsages, type PromptUsage, type PromptVariables } from '@seo-spy/prompts';
+import { DEFAULT_RATE_LIMIT, TaskQueue, type TaskQueueOptions } from '@seo-spy/task-queue';
 
-interface GPT4Config {
+export interface GPT4Config {
   apiKey: string;
   model?: 'gpt-4' | 'gpt-4-turbo' | 'gpt-4-turbo-preview';
   maxTokens?: number;
   temperature?: number;
+  // 设置后每次调用前检查预算并记录 token 用量
+  budget?: BudgetTracker;
+  // 提示词模板库（gpt4-gen.system / gpt4-gen.user），默认使用包内模板
+  prompts?: PromptLibrary;
+  // generateBatch 的并发、限流（限流器名为 openai）和重试；设置 stateDir 后中断的批次可续跑
+  queue?: Omit<TaskQueueOptions, 'isFatal'>;
+  // 流式生成：设置 partialDir 后部分输出保存到磁盘；断开后最多续写 maxResumes 次
+  stream?: StreamRecoveryOptions;
 }
 
-interface ArticleMetadata {
+export interface UsageStats {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  usd: number;
+}
+
+export interface ArticleMetadata {
   title: string;
   slug: string;
   excerpt: string;
@@ -22,17 +41,58 @@ interface ArticleMetadata {
   category: string;
   readingTime: number;
   wordCount: number;
+  // 生成本文所用的提示词模板版本
+  prompts?: PromptUsage[];
+  // 生成请求的记录（完整提示词哈希、温度和 token 用量），用于溯源
+  generation?: GenerationRecord;
 }
 
-interface GeneratedArticle {
+export interface GenerationRecord {
+  promptHash: string;
+  temperature: number;
+  inputTokens: number;
+  outputTokens: number;
+  // 流中途断开后续写时，拼成输出的流数
+  streams?: number;
+}
+
+export interface GeneratedArticle {
   metadata: ArticleMetadata;
   content: string;
   htmlContent: string;
 }
 
+/**
+ * 一次文章生成请求（dry-run 时用于估算 token 成本）
+ */
+export interface ArticleRequest {
+  model: string;
+  maxTokens: number;
+  system: string;
+  prompt: string;
+  prompts?: PromptUsage[];
+}
+
+interface CompletionResult {
+  text: string;
+  streams: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// 流断开后续写的提示：已完成的部分作为助手消息发送，要求模型从下一节接着写
+const CONTINUE_PROMPT = 'Your previous response was cut off. Continue exactly where the text above ends, ' +
+  'starting with the next "## " section. Do not repeat anything that is already written.';
+
 export class GPT4Generator {
   private client: OpenAI;
-  private config: Required<GPT4Config>;
+  private config: Required<Omit<GPT4Config, 'budget' | 'prompts' | 'queue' | 'stream'>>;
+  private budget?: BudgetTracker;
+  private prompts: PromptLibrary;
+  private queue?: Omit<TaskQueueOptions, 'isFatal'>;
+  private stream?: StreamRecoveryOptions;
+  private usage: TokenUsage[] = [];
+  private unprocessed: string[] = [];
 
   constructor(config: GPT4Config) {
     this.config = {
@@ -41,6 +101,10 @@ export class GPT4Generator {
       maxTokens: config.maxTokens || 4000,
       temperature: config.temperature || 0.7
     };
+    this.budget = config.budget;
+    this.prompts = config.prompts || new PromptLibrary();
+    this.queue = config.queue;
+    this.stream = config.stream;
 
     this.client = new OpenAI({
       apiKey: this.config.apiKey
@@ -49,27 +113,28 @@ export class GPT4Generator {
 
   /**
    * 生成完整文章
+   * variables 覆盖模板变量，如 minWords（默认 1500）、niche
    */
-  async generateArticle(keyword: string, locale: string = 'en-US'): Promise<GeneratedArticle> {
+  async generateArticle(keyword: string, locale: string = 'en-US', variables: PromptVariables = {}): Promise<GeneratedArticle> {
     console.log(`🤖 Generating article with GPT-4 for: "${keyword}"\n`);
 
-    const systemPrompt = this.getSystemPrompt(locale);
-    const userPrompt = this.getUserPrompt(keyword, locale);
+    const request = this.buildRequest(keyword, locale, variables);
 
-    const response = await this.client.chat.completions.create({
-      model: this.config.model,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      max_tokens: this.config.maxTokens,
-      temperature: this.config.temperature
-    });
-
-    const content = response.choices[0]?.message?.content || '';
+    const response = await this.complete([
+      { role: 'system', content: request.system },
+      { role: 'user', content: request.prompt }
+    ], this.config.temperature);
 
     // 解析内容和元数据
-    const article = this.parseArticle(content, keyword);
+    const article = this.parseArticle(response.text, keyword);
+    article.metadata.prompts = request.prompts;
+    article.metadata.generation = {
+      promptHash: hashPrompt(request.system, request.prompt),
+      temperature: this.config.temperature,
+      inputTokens: response.inputTokens,
+      outputTokens: response.outputTokens,
+      streams: response.streams > 1 ? response.streams : undefined
+    };
 
     console.log(`✅ Article generated successfully!`);
     console.log(`   Title: ${article.metadata.title}`);
@@ -79,6 +144,23 @@ export class GPT4Generator {
     return article;
   }
 
+  /**
+   * 构建请求但不发送
+   */
+  buildRequest(keyword: string, locale: string = 'en-US', variables: PromptVariables = {}): ArticleRequest {
+    const values: PromptVariables = { minWords: 1500, ...variables, keyword };
+    const system = this.prompts.render('gpt4-gen.system', values, locale);
+    const prompt = this.prompts.render('gpt4-gen.user', values, locale);
+
+    return {
+      model: this.config.model,
+      maxTokens: this.config.maxTokens,
+      system: system.text,
+      prompt: prompt.text,
+      prompts: mergePromptUsages(system.templates, prompt.templates)
+    };
+  }
+
   /**
    * 批量生成文章
    */
@@ -87,22 +169,31 @@ export class GPT4Generator {
 
     const articles: GeneratedArticle[] = [];
     const startTime = Date.now();
+    this.unprocessed = [];
+
+    // 预算用尽时停止队列，剩余关键词留给下一次运行
+    const queue = new TaskQueue<string, GeneratedArticle>({
+      rateLimits: { openai: DEFAULT_RATE_LIMIT },
+      ...this.queue,
+      isFatal: isBudgetError
+    });
+    const result = await queue.run(
+      keywords.map(keyword => ({ id: keyword, data: keyword, limiter: 'openai' })),
+      keyword => {
+        console.log(`[${keywords.indexOf(keyword) + 1}/${keywords.length}] Processing: "${keyword}"`);
+        return this.generateArticle(keyword, locale);
+      }
+    );
 
-    for (let i = 0; i < keywords.length; i++) {
-      const keyword = keywords[i];
-      console.log(`[${i + 1}/${keywords.length}] Processing: "${keyword}"`);
+    articles.push(...result.completed.map(entry => entry.result));
 
-      try {
-        const article = await this.generateArticle(keyword, locale);
-        articles.push(article);
+    for (const { job, error } of result.failed) {
+      console.error(`   ❌ Failed "${job.id}": ${error.message}\n`);
+    }
 
-        // 添加延迟避免速率限制
-        if (i < keywords.length - 1) {
-          await this.sleep(1000);
-        }
-      } catch (error: any) {
-        console.error(`   ❌ Failed: ${error.message}\n`);
-      }
+    if (result.stoppedBy) {
+      this.unprocessed = result.pending.map(job => job.data);
+      console.warn(`   💸 ${result.stoppedBy.message}, ${this.unprocessed.length} keyword(s) unprocessed\n`);
     }
 
     const duration = ((Date.now() - startTime) / 1000).toFixed(1);
@@ -125,29 +216,42 @@ export class GPT4Generator {
       engagement: 'Enhance engagement: add compelling hooks, improve storytelling, add call-to-actions, make content more memorable.'
     };
 
-    const response = await this.client.chat.completions.create({
-      model: this.config.model,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert content editor specializing in high-quality web content.'
-        },
-        {
-          role: 'user',
-          content: `${optimizationPrompts[focus]}\n\nArticle:\n\n${content}`
-        }
-      ],
-      max_tokens: this.config.maxTokens,
-      temperature: 0.5
-    });
+    const response = await this.complete([
+      {
+        role: 'system',
+        content: 'You are an expert content editor specializing in high-quality web content.'
+      },
+      {
+        role: 'user',
+        content: `${optimizationPrompts[focus]}\n\nArticle:\n\n${content}`
+      }
+    ], 0.5);
 
-    const optimized = response.choices[0]?.message?.content || content;
+    const optimized = response.text || content;
 
     console.log('✅ Article optimized successfully!\n');
 
     return optimized;
   }
 
+  /**
+   * 按改写说明更新已有文章，保留站内链接
+   */
+  async refreshArticle(content: string, brief: string): Promise<string> {
+    const response = await this.complete([
+      {
+        role: 'system',
+        content: 'You are an expert content editor who keeps published articles accurate and up to date.'
+      },
+      {
+        role: 'user',
+        content: `Update this article following the brief below. Keep every internal link target unchanged, do not add frontmatter, and return only the full updated Markdown body.\n\nBrief:\n${brief}\n\nArticle:\n\n${content}`
+      }
+    ], 0.5);
+
+    return response.text || content;
+  }
+
   /**
    * 生成文章变体（A/B测试）
    */
@@ -160,112 +264,24 @@ export class GPT4Generator {
       length: 'Rewrite this article to be significantly more detailed and comprehensive, adding examples and deeper analysis.'
     };
 
-    const response = await this.client.chat.completions.create({
-      model: this.config.model,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert content writer who can create multiple effective variations of the same content.'
-        },
-        {
-          role: 'user',
-          content: `${variationPrompts[variationType]}\n\nOriginal Article:\n\n${originalArticle}`
-        }
-      ],
-      max_tokens: this.config.maxTokens,
-      temperature: 0.8
-    });
+    const response = await this.complete([
+      {
+        role: 'system',
+        content: 'You are an expert content writer who can create multiple effective variations of the same content.'
+      },
+      {
+        role: 'user',
+        content: `${variationPrompts[variationType]}\n\nOriginal Article:\n\n${originalArticle}`
+      }
+    ], 0.8);
 
-    const variation = response.choices[0]?.message?.content || originalArticle;
+    const variation = response.text || originalArticle;
 
     console.log('✅ Article variation generated!\n');
 
     return variation;
   }
 
-  /**
-   * 获取系统提示词
-   */
-  private getSystemPrompt(locale: string): string {
-    const prompts: Record<string, string> = {
-      'en-US': `You are an expert SEO content writer specializing in creating high-quality, engaging articles that rank well in search engines.
-
-Your articles should:
-- Be comprehensive, well-researched, and authoritative
-- Include relevant keywords naturally
-- Have clear structure with proper headings (H1, H2, H3)
-- Be engaging and valuable to readers
-- Include practical examples and actionable advice
-- Be optimized for featured snippets
-- Have proper meta descriptions and title tags
-
-Format your response as:
----
-METADATA
-Title: [SEO-optimized title]
-Slug: [URL-friendly slug]
-Excerpt: [Compelling 150-char excerpt]
-Keywords: [comma, separated, keywords]
-Category: [content category]
----
-
-[Full article content in markdown format]`,
-
-      'zh-CN': `你是一位专业的SEO内容写作专家，擅长创作高质量、引人入胜的文章，能够在搜索引擎中获得良好排名。
-
-你的文章应该：
-- 全面、有深度、权威
-- 自然地融入相关关键词
-- 有清晰的结构和适当的标题（H1, H2, H3）
-- 引人入胜，对读者有价值
-- 包含实用的例子和可操作的建议
-- 针对精选摘要进行优化
-- 有恰当的元描述和标题标签
-
-请按以下格式回复：
----
-元数据
-标题: [SEO优化的标题]
- Slug: [URL友好的slug]
-摘要: [吸引人的150字摘要]
-关键词: [逗号分隔的关键词]
-分类: [内容分类]
----
-
-[完整的markdown格式文章内容]`
-    };
-
-    return prompts[locale] || prompts['en-US'];
-  }
-
-  /**
-   * 获取用户提示词
-   */
-  private getUserPrompt(keyword: string, locale: string): string {
-    const prompts: Record<string, string> = {
-      'en-US': `Write a comprehensive, SEO-optimized article about: "${keyword}"
-
-Requirements:
-- Minimum 1500 words
-- Include an introduction, 5-7 main sections, and a conclusion
-- Use bullet points, numbered lists, and tables where appropriate
-- Include a FAQ section
-- Add internal linking suggestions (marked as [Link: related topic])
-- Suggest a meta title (60 chars max) and description (160 chars max)`,
-      'zh-CN': `写一篇关于"${keyword}"的全面、SEO优化的文章
-
-要求：
-- 至少1500字
-- 包括引言、5-7个主要章节和结论
-- 适当使用项目符号、编号列表和表格
-- 包括FAQ部分
-- 添加内部链接建议（标记为 [链接: 相关主题]）
-- 建议元标题（最多60个字符）和描述（最多160个字符）`
-    };
-
-    return prompts[locale] || prompts['en-US'];
-  }
-
   /**
    * 解析文章内容
    */
@@ -339,24 +355,111 @@ Requirements:
   }
 
   /**
-   * 延迟函数
+   * 上一次 generateBatch 因预算用尽而未处理的关键词
+   */
+  getUnprocessedKeywords(): string[] {
+    return this.unprocessed;
+  }
+
+  /**
+   * 流式调用 Chat Completions：部分输出边接收边保存，流断开时从最后一个完整小节续写
+   */
+  private async complete(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    temperature: number
+  ): Promise<CompletionResult> {
+    const usage = { inputTokens: 0, outputTokens: 0 };
+    const key = hashPrompt(...messages.map(message => String(message.content))).slice(0, 16);
+
+    const { text, streams } = await streamWithRecovery(
+      key,
+      resume => this.streamCompletion(messages, temperature, usage, resume),
+      { ...this.stream, isFatal: isBudgetError }
+    );
+
+    return { text, streams, ...usage };
+  }
+
+  /**
+   * 一段流：调用前检查预算，结束或断开后把 token 用量累加到 usage 并记账
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async *streamCompletion(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    temperature: number,
+    usage: { inputTokens: number; outputTokens: number },
+    resume?: string
+  ): AsyncGenerator<string> {
+    const request: OpenAI.Chat.ChatCompletionMessageParam[] = resume
+      ? [...messages, { role: 'assistant', content: resume }, { role: 'user', content: CONTINUE_PROMPT }]
+      : messages;
+    const promptTokens = request.reduce((total, message) => total + estimateTokens(String(message.content)), 0);
+    const reservation = this.budget?.reserve(this.budget.estimate(this.config.model, promptTokens, this.config.maxTokens));
+
+    let started = false;
+    let received = '';
+    let reported: OpenAI.CompletionUsage | undefined;
+
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: this.config.model,
+        messages: request,
+        max_tokens: this.config.maxTokens,
+        temperature,
+        stream: true,
+        stream_options: { include_usage: true }
+      });
+      started = true;
+
+      for await (const chunk of stream) {
+        reported = chunk.usage ?? reported;
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) {
+          received += text;
+          yield text;
+        }
+      }
+    } finally {
+      // 断开的流拿不到最终用量，按已收到的文本估算；请求未发出时只释放预留
+      const used: TokenUsage | undefined = started
+        ? {
+          model: this.config.model,
+          inputTokens: reported?.prompt_tokens ?? promptTokens,
+          outputTokens: reported?.completion_tokens ?? estimateTokens(received)
+        }
+        : undefined;
+      if (used) {
+        usage.inputTokens += used.inputTokens;
+        usage.outputTokens += used.outputTokens;
+        this.usage.push(used);
+      }
+      if (this.budget && reservation) {
+        this.budget.settle(reservation, used, 'gpt4-gen');
+      }
+    }
   }
 
   /**
-   * 获取使用统计
+   * 获取本实例的使用统计
    */
-  async getUsageStats(): Promise<void> {
+  getUsageStats(): UsageStats {
+    const stats: UsageStats = {
+      requests: this.usage.length,
+      inputTokens: this.usage.reduce((total, usage) => total + usage.inputTokens, 0),
+      outputTokens: this.usage.reduce((total, usage) => total + usage.outputTokens, 0),
+      usd: this.usage.reduce((total, usage) => total + (estimateCost(usage.model, usage.inputTokens, usage.outputTokens) || 0), 0)
+    };
+
     console.log('📊 GPT-4 Usage Statistics\n');
-    console.log('To check your API usage:');
-    console.log('1. Visit: https://platform.openai.com/usage');
-    console.log('2. Review your current billing and usage\n');
+    console.log(`   Requests: ${stats.requests}`);
+    console.log(`   Input tokens: ${stats.inputTokens}`);
+    console.log(`   Output tokens: ${stats.outputTokens}`);
+    console.log(`   Estimated cost: $${stats.usd.toFixed(4)}\n`);
     console.log('💡 Tips to reduce costs:');
     console.log('- Use gpt-4-turbo-preview for better performance/price ratio');
     console.log('- Implement caching for repeated requests');
     console.log('- Use lower temperature for deterministic outputs\n');
+
+    return stats;
   }
 }
 
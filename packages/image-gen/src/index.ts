@@ -6,10 +6,10 @@
  */
 
 import OpenAI from 'openai';
-import { writeFileSync, mkdirSync, existsSync, readFileSync } from 'fs';
+import { writeFileSync, mkdirSync, existsSync, readFileSync, readdirSync } from 'fs';
 import { join } from 'path';
 
-interface ImageGenConfig {
+export interface ImageGenConfig {
   apiKey: string;
   contentDir: string;
   outputDir: string;
@@ -19,7 +19,7 @@ interface ImageGenConfig {
   quality?: 'standard' | 'hd';
 }
 
-interface GeneratedImage {
+export interface GeneratedImage {
   articleSlug: string;
   prompt: string;
   imagePath: string;
@@ -82,7 +82,6 @@ export class ImageGenerator {
    * 加载文章元数据
    */
   private loadArticles(): ArticleMetadata[] {
-    const { readdirSync, readFileSync } = require('fs');
     const articles: ArticleMetadata[] = [];
 
     const files = readdirSync(join(process.cwd(), this.config.contentDir))
@@ -9,7 +9,7 @@ import { readFileSync, writeFileSync, existsSync, readdirSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 
-interface LinkConfig {
+export interface LinkConfig {
   contentDir: string;
   maxLinksPerArticle: number;
   minWordDistance: number;
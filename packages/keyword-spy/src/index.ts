@@ -5,10 +5,10 @@
  * 自动爬取并分析 SEO 关键词
  */
 
-import { writeFileSync, mkdirSync } from 'fs';
+import { writeFileSync, mkdirSync, existsSync, readFileSync } from 'fs';
 import { join } from 'path';
 
-interface KeywordSpyConfig {
+export interface KeywordSpyConfig {
   sources: KeywordSource[];
   outputDir: string;
   maxKeywords: number;
@@ -16,13 +16,13 @@ interface KeywordSpyConfig {
   niches: string[];
 }
 
-interface KeywordSource {
+export interface KeywordSource {
   type: 'google' | 'baidu' | 'bing' | 'custom';
   url?: string;
   enabled: boolean;
 }
 
-interface KeywordData {
+export interface KeywordData {
   keyword: string;
   volume: number;
   difficulty: number;
@@ -174,23 +174,23 @@ export class KeywordAnalyzer {
   }
 }
 
-// CLI 入口
+// CLI 入口：与流水线的关键词阶段一样读取 CONFIG_PATH 或 pipeline.config.json 中的 keywords 配置
 if (import.meta.url === `file://${process.argv[1]}`) {
+  const configPath = process.env.CONFIG_PATH || join(process.cwd(), 'pipeline.config.json');
+  if (!existsSync(configPath)) {
+    console.error(`❌ Pipeline config not found: ${configPath}`);
+    process.exit(1);
+  }
+
+  const { keywords } = JSON.parse(readFileSync(configPath, 'utf-8')) as {
+    keywords: Pick<KeywordSpyConfig, 'niches' | 'maxKeywords'> & Partial<Pick<KeywordSpyConfig, 'sources' | 'minVolume'>>;
+  };
   const config: KeywordSpyConfig = {
-    sources: [
-      { type: 'google', enabled: true },
-      { type: 'baidu', enabled: false }
-    ],
+    sources: keywords.sources || [{ type: 'google', enabled: true }],
     outputDir: './data',
-    maxKeywords: 1000,
-    minVolume: 100,
-    niches: [
-      '前端报错',
-      'React教程',
-      'TypeScript入门',
-      'Astro开发',
-      'SEO优化'
-    ]
+    maxKeywords: keywords.maxKeywords,
+    minVolume: keywords.minVolume ?? 100,
+    niches: keywords.niches
   };
 
   const spy = new KeywordSpy(config);
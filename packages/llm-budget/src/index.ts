@@ -0,0 +1,309 @@
+/**
+ * @seo-spy/llm-budget - LLM Token Accounting & Budgets
+ * 模型调用的 token 记账与花费预算：按单次运行、每天、每月和站点封顶
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { AppError } from '@seo-spy/error-handler';
+import { estimateCost, type ModelPrice } from './pricing.js';
+
+export { MODEL_PRICING, IMAGE_PRICING, estimateCost, estimateTokens, type ModelPrice } from './pricing.js';
+
+// ============================================
+// Types & Interfaces / 类型定义
+// ============================================
+
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * 预算上限（美元），未配置的维度不限制
+ */
+export interface BudgetLimits {
+  // 单次流水线运行
+  perRunUsd?: number;
+  // 当天（本地时区）所有运行合计
+  perDayUsd?: number;
+  // 当月所有运行合计
+  perMonthUsd?: number;
+  // 单个站点当天合计；对象形式可按站点 ID 单独设置
+  perSiteDailyUsd?: number | Record<string, number>;
+  // 价格表以外的模型（或覆盖内置价格），美元 / 百万 token；配置了上限时未定价的模型不能调用
+  pricing?: Record<string, ModelPrice>;
+}
+
+export interface LedgerEntry extends TokenUsage {
+  timestamp: string;
+  runId: string;
+  siteId?: string;
+  source?: string;
+  usd: number;
+}
+
+export interface BudgetTrackerOptions {
+  limits: BudgetLimits;
+  runId: string;
+  siteId?: string;
+  // 默认 data/logs/llm-ledger.json
+  ledgerPath?: string;
+}
+
+export type BudgetScope = 'run' | 'day' | 'month' | 'site';
+
+/**
+ * 进行中调用预留的预估花费，结束后用 settle 换成实际用量
+ */
+export interface BudgetReservation {
+  id: number;
+  usd: number;
+}
+
+export interface BudgetSummary {
+  runUsd: number;
+  dayUsd: number;
+  monthUsd: number;
+  siteUsd?: number;
+  inputTokens: number;
+  outputTokens: number;
+  requests: number;
+  // 各维度剩余额度，未配置的维度为 undefined
+  remaining: Partial<Record<BudgetScope, number>>;
+}
+
+export class BudgetExceededError extends AppError {
+  public readonly scope: BudgetScope;
+  public readonly limitUsd: number;
+  public readonly spentUsd: number;
+
+  constructor(scope: BudgetScope, limitUsd: number, spentUsd: number) {
+    super(`LLM ${scope} budget of $${limitUsd.toFixed(2)} reached (spent $${spentUsd.toFixed(4)})`, {
+      category: 'validation',
+      severity: 'high',
+      code: 'BUDGET_EXCEEDED',
+      retryable: false,
+      scope,
+      limitUsd,
+      spentUsd
+    });
+    this.name = 'BudgetExceededError';
+    this.scope = scope;
+    this.limitUsd = limitUsd;
+    this.spentUsd = spentUsd;
+  }
+}
+
+/**
+ * 配置了预算上限但模型没有价格，无法计算花费，调用前拒绝
+ */
+export class UnpricedModelError extends AppError {
+  public readonly model: string;
+
+  constructor(model: string) {
+    super(`No pricing for model ${model}, add it to budget.pricing so the budget can be enforced`, {
+      category: 'validation',
+      severity: 'high',
+      code: 'MODEL_UNPRICED',
+      retryable: false,
+      model
+    });
+    this.name = 'UnpricedModelError';
+    this.model = model;
+  }
+}
+
+/**
+ * 应停止生成、把剩余关键词留给下次运行的预算错误
+ */
+export function isBudgetError(error: unknown): error is BudgetExceededError | UnpricedModelError {
+  return error instanceof BudgetExceededError || error instanceof UnpricedModelError;
+}
+
+// 账本只保留最近的记录，足够覆盖当月统计
+const LEDGER_RETENTION_DAYS = 62;
+
+// ============================================
+// Budget Tracker / 预算跟踪
+// ============================================
+
+export class BudgetTracker {
+  private options: BudgetTrackerOptions;
+  private ledgerPath: string;
+  private entries: LedgerEntry[];
+  // 进行中调用的预留花费
+  private reservations: Map<number, number> = new Map();
+  private nextReservationId = 1;
+
+  constructor(options: BudgetTrackerOptions) {
+    this.options = options;
+    this.ledgerPath = options.ledgerPath || join(process.cwd(), 'data/logs/llm-ledger.json');
+    this.entries = this.loadLedger();
+  }
+
+  /**
+   * 调用模型前检查：已花费（含进行中调用的预留）加上本次预估花费超过任一上限时抛出 BudgetExceededError
+   */
+  check(estimatedUsd = 0): void {
+    for (const [scope, limit, spent] of this.getScopes()) {
+      if (spent + estimatedUsd > limit) {
+        throw new BudgetExceededError(scope, limit, spent);
+      }
+    }
+  }
+
+  /**
+   * 调用前预留预估花费：已花费、进行中调用的预留与本次预估之和超过任一上限时抛出 BudgetExceededError
+   * 并发的调用各自预留，不会同时通过检查后一起超支
+   */
+  reserve(estimatedUsd: number): BudgetReservation {
+    this.check(estimatedUsd);
+
+    const reservation = { id: this.nextReservationId++, usd: estimatedUsd };
+    this.reservations.set(reservation.id, reservation.usd);
+
+    return reservation;
+  }
+
+  /**
+   * 释放预留并记录实际用量；调用在产生用量之前失败时不传 usage，只释放预留
+   */
+  settle(reservation: BudgetReservation, usage?: TokenUsage, source?: string): number {
+    this.reservations.delete(reservation.id);
+    return usage ? this.record(usage, source) : 0;
+  }
+
+  /**
+   * 预估一次调用的花费（输出按 maxOutputTokens 计，作为上限）
+   * 模型没有价格时无法保证上限，配置了任一上限就抛出 UnpricedModelError
+   */
+  estimate(model: string, inputTokens: number, maxOutputTokens: number): number {
+    const usd = estimateCost(model, inputTokens, maxOutputTokens, this.options.limits.pricing);
+    if (usd === undefined && this.getScopes().length > 0) {
+      throw new UnpricedModelError(model);
+    }
+
+    return usd || 0;
+  }
+
+  /**
+   * 记录一次模型调用的实际用量并写入账本，返回本次花费
+   */
+  record(usage: TokenUsage, source?: string): number {
+    const usd = estimateCost(usage.model, usage.inputTokens, usage.outputTokens, this.options.limits.pricing);
+    if (usd === undefined) {
+      console.warn(`⚠️  No pricing for model ${usage.model}, counting tokens only`);
+    }
+
+    const entry: LedgerEntry = {
+      ...usage,
+      timestamp: new Date().toISOString(),
+      runId: this.options.runId,
+      ...(this.options.siteId ? { siteId: this.options.siteId } : {}),
+      ...(source ? { source } : {}),
+      usd: usd || 0
+    };
+
+    // 其他进程可能同时记账，写入前重新加载
+    this.entries = [...this.loadLedger(), entry];
+    this.saveLedger();
+
+    return entry.usd;
+  }
+
+  summary(): BudgetSummary {
+    const run = this.entries.filter(entry => entry.runId === this.options.runId);
+    const remaining: Partial<Record<BudgetScope, number>> = {};
+
+    for (const [scope, limit, spent] of this.getScopes()) {
+      remaining[scope] = Math.max(0, limit - spent);
+    }
+
+    return {
+      runUsd: sum(run),
+      dayUsd: sum(this.entries.filter(entry => isSameDay(entry.timestamp))),
+      monthUsd: sum(this.entries.filter(entry => isSameMonth(entry.timestamp))),
+      siteUsd: this.options.siteId ? sum(this.siteEntries()) : undefined,
+      inputTokens: run.reduce((total, entry) => total + entry.inputTokens, 0),
+      outputTokens: run.reduce((total, entry) => total + entry.outputTokens, 0),
+      requests: run.length,
+      remaining
+    };
+  }
+
+  /**
+   * 已配置的预算维度：[维度, 上限, 已花费 + 进行中调用的预留]
+   * 预留都属于本次运行（和站点）的当天、当月，计入每个维度
+   */
+  private getScopes(): [BudgetScope, number, number][] {
+    const { limits, runId } = this.options;
+    const scopes: [BudgetScope, number, number][] = [];
+    const reserved = [...this.reservations.values()].reduce((total, usd) => total + usd, 0);
+
+    if (limits.perRunUsd !== undefined) {
+      scopes.push(['run', limits.perRunUsd, sum(this.entries.filter(entry => entry.runId === runId)) + reserved]);
+    }
+
+    if (limits.perDayUsd !== undefined) {
+      scopes.push(['day', limits.perDayUsd, sum(this.entries.filter(entry => isSameDay(entry.timestamp))) + reserved]);
+    }
+
+    if (limits.perMonthUsd !== undefined) {
+      scopes.push(['month', limits.perMonthUsd, sum(this.entries.filter(entry => isSameMonth(entry.timestamp))) + reserved]);
+    }
+
+    const siteLimit = this.getSiteLimit();
+    if (siteLimit !== undefined) {
+      scopes.push(['site', siteLimit, sum(this.siteEntries()) + reserved]);
+    }
+
+    return scopes;
+  }
+
+  private getSiteLimit(): number | undefined {
+    const { limits, siteId } = this.options;
+    if (!siteId || limits.perSiteDailyUsd === undefined) {
+      return undefined;
+    }
+
+    return typeof limits.perSiteDailyUsd === 'number'
+      ? limits.perSiteDailyUsd
+      : limits.perSiteDailyUsd[siteId];
+  }
+
+  private siteEntries(): LedgerEntry[] {
+    return this.entries.filter(entry => entry.siteId === this.options.siteId && isSameDay(entry.timestamp));
+  }
+
+  private loadLedger(): LedgerEntry[] {
+    if (!existsSync(this.ledgerPath)) {
+      return [];
+    }
+
+    return JSON.parse(readFileSync(this.ledgerPath, 'utf-8')).entries || [];
+  }
+
+  private saveLedger(): void {
+    const cutoff = Date.now() - LEDGER_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    this.entries = this.entries.filter(entry => new Date(entry.timestamp).getTime() >= cutoff);
+
+    mkdirSync(dirname(this.ledgerPath), { recursive: true });
+    writeFileSync(this.ledgerPath, JSON.stringify({ entries: this.entries }, null, 2));
+  }
+}
+
+function sum(entries: LedgerEntry[]): number {
+  return entries.reduce((total, entry) => total + entry.usd, 0);
+}
+
+function isSameDay(timestamp: string): boolean {
+  return new Date(timestamp).toDateString() === new Date().toDateString();
+}
+
+function isSameMonth(timestamp: string): boolean {
+  const date = new Date(timestamp);
+  const now = new Date();
+  return date.getFullYear() === now.getFullYear() && date.getMonth() === now.getMonth();
+}
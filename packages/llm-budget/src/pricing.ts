@@ -0,0 +1,54 @@
+/**
+ * Model Pricing
+ * 模型价格表（美元 / 百万 token），用于预算记账和 plan 模式的成本估算
+ */
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'claude-3-opus-20240229': { input: 15, output: 75 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4-turbo-preview': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gemini-pro': { input: 0.5, output: 1.5 },
+  // content-provider 的本地模拟提供方
+  'mock': { input: 0, output: 0 }
+};
+
+// 每张图片的价格（美元）
+export const IMAGE_PRICING: Record<string, number> = {
+  'dall-e-3:standard': 0.04,
+  'dall-e-3:hd': 0.08,
+  'dall-e-2:standard': 0.02
+};
+
+/**
+ * 粗略估算 token 数：中日韩字符约 1 token/字，其余约 4 字符/token
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length || 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * 计算模型调用成本，overrides 优先于内置价格表；未知模型返回 undefined
+ */
+export function estimateCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  overrides?: Record<string, ModelPrice>
+): number | undefined {
+  const price = overrides?.[model] || MODEL_PRICING[model];
+  if (!price) {
+    return undefined;
+  }
+
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
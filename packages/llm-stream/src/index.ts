@@ -0,0 +1,193 @@
+/**
+ * @seo-spy/llm-stream - Streaming With Partial-Output Recovery
+ * 流式生成 - 边接收边把部分输出保存到磁盘，流中途断开时从最后一个完整小节（## 标题）继续，
+ * 不必从头重新生成；进程中断后下次以相同提示词调用时也从保存的部分输出继续
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { getStatusCode } from '@seo-spy/task-queue';
+
+// ============================================
+// Types & Interfaces / 类型定义
+// ============================================
+
+export interface StreamRecoveryOptions {
+  // 部分输出的保存目录（相对当前目录），不设置时只在本次调用内续写
+  partialDir?: string;
+  // 一次调用中断开后最多续写的次数，默认 2
+  maxResumes?: number;
+}
+
+/**
+ * 发起一次流式请求，逐段返回文本
+ * resume 为已完整输出的部分（以一个完整小节结尾），实现方要让模型紧接着输出后续内容，不要重复 resume
+ */
+export type StreamStarter = (resume?: string) => AsyncIterable<string>;
+
+export interface StreamedText {
+  text: string;
+  // 拼成完整输出的流数，大于 1 表示中途断开后续写而成
+  streams: number;
+}
+
+export interface StreamCallOptions extends StreamRecoveryOptions {
+  // 返回 true 的错误（如预算用尽）不续写，直接抛出，已保存的部分输出留给下次
+  isFatal?: (error: unknown) => boolean;
+}
+
+// ============================================
+// Partial Output / 部分输出
+// ============================================
+
+/**
+ * <dir>/<key>.partial.md，key 通常是完整提示词的哈希
+ */
+export class PartialOutputStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = resolve(process.cwd(), dir);
+  }
+
+  load(key: string): string | undefined {
+    const path = this.getPath(key);
+    return existsSync(path) ? readFileSync(path, 'utf-8') : undefined;
+  }
+
+  save(key: string, text: string): void {
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(this.getPath(key), text);
+  }
+
+  append(key: string, chunk: string): void {
+    appendFileSync(this.getPath(key), chunk);
+  }
+
+  clear(key: string): void {
+    rmSync(this.getPath(key), { force: true });
+  }
+
+  private getPath(key: string): string {
+    return join(this.dir, `${key}.partial.md`);
+  }
+}
+
+/**
+ * 截到最后一个 H2 标题之前：最后一节可能没写完，之前的内容（frontmatter、导语和已结束的小节）是完整的
+ * 代码块中的 ## 不算标题；没有 H2 标题时返回空字符串
+ */
+export function lastCompleteSection(text: string): string {
+  const lines = text.split('\n');
+  let inFence = false;
+  let cut = -1;
+
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence && /^##\s/.test(line)) {
+      cut = index;
+    }
+  });
+
+  return cut === -1 ? '' : lines.slice(0, cut).join('\n').trimEnd();
+}
+
+// ============================================
+// Streaming / 流式调用
+// ============================================
+
+/**
+ * 流式调用并在断开时续写；同一 key 有上次保存的部分输出时直接从其最后一个完整小节继续
+ */
+export async function streamWithRecovery(
+  key: string,
+  start: StreamStarter,
+  options: StreamCallOptions = {}
+): Promise<StreamedText> {
+  const store = options.partialDir ? new PartialOutputStore(options.partialDir) : undefined;
+  const maxResumes = options.maxResumes ?? 2;
+
+  let resume = lastCompleteSection(store?.load(key) || '') || undefined;
+  // 从上次运行保存的部分输出继续时，结果同样由多段流拼成
+  let streams = resume ? 1 : 0;
+  let resumes = 0;
+
+  if (resume) {
+    console.log(`♻️  Resuming ${key} from saved partial output (${resume.length} chars)`);
+  }
+
+  for (;;) {
+    const base = resume ? `${resume}\n\n` : '';
+    let continuation = '';
+    streams++;
+    store?.save(key, base);
+
+    try {
+      for await (const chunk of start(resume)) {
+        continuation += chunk;
+        store?.append(key, chunk);
+      }
+
+      store?.clear(key);
+      return { text: base + (resume ? continuation.trimStart() : continuation), streams };
+    } catch (error) {
+      if (options.isFatal?.(error) || !isStreamDrop(error) || resumes >= maxResumes) {
+        throw error;
+      }
+
+      resumes++;
+      resume = lastCompleteSection(base + continuation) || undefined;
+      // 没有完整小节时从头开始，之前的流不计入
+      if (!resume) {
+        streams = 0;
+      }
+      console.warn(
+        `🔌 Stream ${key} dropped after ${continuation.length} chars (${(error as Error).message}), ` +
+        (resume ? 'continuing from the last complete section' : 'starting over')
+      );
+    }
+  }
+}
+
+// 连接中断、超时和流提前关闭时的错误码（Node 网络错误与 undici）
+const DROP_CODES = ['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'ECONNABORTED', 'ERR_STREAM_PREMATURE_CLOSE', 'UND_ERR_SOCKET'];
+
+// Anthropic / OpenAI SDK 的连接错误（含连接超时）
+const DROP_ERRORS = ['APIConnectionError', 'APIConnectionTimeoutError'];
+
+/**
+ * 只有连接或流本身的中断（网络错误、超时、流提前关闭、408、409、429、5xx、流中的过载事件）可以续写；
+ * 其余错误（其他 4xx、解析错误、中止、代码错误）原样抛出，避免重复计费
+ */
+function isStreamDrop(error: unknown): boolean {
+  const status = getStatusCode(error);
+  if (status !== undefined) {
+    return status >= 500 || [408, 409, 429].includes(status);
+  }
+
+  const source = error as {
+    name?: string;
+    code?: unknown;
+    message?: string;
+    cause?: { code?: unknown };
+    error?: { type?: string; error?: { type?: string } };
+  } | undefined;
+  if (!source || typeof source !== 'object') {
+    return false;
+  }
+
+  const name = source.constructor?.name;
+  if (DROP_ERRORS.includes(name) || DROP_ERRORS.includes(source.name || '')) {
+    return true;
+  }
+
+  const code = source.code ?? source.cause?.code;
+  if (typeof code === 'string' && DROP_CODES.includes(code)) {
+    return true;
+  }
+
+  // 流中途收到的过载事件没有 HTTP 状态码
+  const type = source.error?.error?.type ?? source.error?.type;
+  return type === 'overloaded_error' || /premature close/i.test(source.message || '');
+}
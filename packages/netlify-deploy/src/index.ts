@@ -8,13 +8,13 @@
 import { readFileSync, statSync } from 'fs';
 import { join } from 'path';
 
-interface NetlifyConfig {
+export interface NetlifyConfig {
   personalAccessToken: string;
   siteName?: string;
   teamId?: string;
 }
 
-interface DeploymentResult {
+export interface DeploymentResult {
   success: boolean;
   siteUrl?: string;
   deployUrl?: string;
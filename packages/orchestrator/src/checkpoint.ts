@@ -0,0 +1,102 @@
+/**
+ * Pipeline Checkpoints
+ * 流水线检查点 - 记录每个阶段的完成状态和产出，支持断点续跑
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+
+export type StageStatus = 'success' | 'failed' | 'skipped';
+
+export interface StageCheckpoint {
+  stage: string;
+  status: StageStatus;
+  startedAt: string;
+  finishedAt: string;
+  duration: number;
+  output?: unknown;
+  error?: string;
+}
+
+export interface RunCheckpoint<TConfig = unknown> {
+  runId: string;
+  createdAt: string;
+  updatedAt: string;
+  resumedAt?: string[];
+  config: TConfig;
+  stages: Record<string, StageCheckpoint>;
+}
+
+export class CheckpointStore<TConfig = unknown> {
+  private baseDir: string;
+
+  constructor(baseDir: string = join(process.cwd(), 'data/logs/checkpoints')) {
+    this.baseDir = baseDir;
+  }
+
+  /**
+   * 生成运行 ID
+   */
+  static createRunId(): string {
+    return `run-${Date.now()}`;
+  }
+
+  /**
+   * 创建新的运行检查点
+   */
+  create(runId: string, config: TConfig): RunCheckpoint<TConfig> {
+    const now = new Date().toISOString();
+    const checkpoint: RunCheckpoint<TConfig> = {
+      runId,
+      createdAt: now,
+      updatedAt: now,
+      config,
+      stages: {}
+    };
+
+    this.save(checkpoint);
+    return checkpoint;
+  }
+
+  /**
+   * 加载已有的运行检查点
+   */
+  load(runId: string): RunCheckpoint<TConfig> {
+    const filePath = this.getPath(runId);
+
+    if (!existsSync(filePath)) {
+      throw new Error(`Checkpoint not found for run: ${runId} (${filePath})`);
+    }
+
+    return JSON.parse(readFileSync(filePath, 'utf-8'));
+  }
+
+  exists(runId: string): boolean {
+    return existsSync(this.getPath(runId));
+  }
+
+  /**
+   * 记录阶段结果并立即落盘
+   */
+  recordStage(checkpoint: RunCheckpoint<TConfig>, stage: StageCheckpoint): void {
+    checkpoint.stages[stage.stage] = stage;
+    this.save(checkpoint);
+  }
+
+  /**
+   * 阶段是否已成功完成
+   */
+  isCompleted(checkpoint: RunCheckpoint<TConfig>, stage: string): boolean {
+    return checkpoint.stages[stage]?.status === 'success';
+  }
+
+  save(checkpoint: RunCheckpoint<TConfig>): void {
+    mkdirSync(this.baseDir, { recursive: true });
+    checkpoint.updatedAt = new Date().toISOString();
+    writeFileSync(this.getPath(checkpoint.runId), JSON.stringify(checkpoint, null, 2));
+  }
+
+  getPath(runId: string): string {
+    return join(this.baseDir, `${runId}.json`);
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Content Sync
+ * 内容同步 - 把 data/articles 中生成的文章校验后同步到 Astro 内容集合
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, unlinkSync } from 'fs';
+import { basename, dirname, join, relative } from 'path';
+import matter from 'gray-matter';
+import { postFrontmatterSchema } from '@seo-spy/article-gen';
+
+export interface ContentSyncOptions {
+  sourceDir: string;
+  targetDir: string;
+  // 记录由同步写入的文件，只有这些文件会被视为孤儿删除
+  manifestPath?: string;
+  removeOrphans?: boolean;
+}
+
+export interface ContentSyncReport {
+  added: string[];
+  updated: string[];
+  unchanged: string[];
+  removed: string[];
+  invalid: { file: string; errors: string[] }[];
+  collisions: { file: string; slug: string; reason: string }[];
+}
+
+interface ManifestEntry {
+  source: string;
+  syncedAt: string;
+}
+
+interface SyncManifest {
+  // 目标目录（相对项目根目录）→ 文件名 → 来源
+  targets: Record<string, Record<string, ManifestEntry>>;
+}
+
+export class ContentSync {
+  private options: Required<ContentSyncOptions>;
+
+  constructor(options: ContentSyncOptions) {
+    this.options = {
+      manifestPath: join(process.cwd(), 'data/content-sync.json'),
+      removeOrphans: true,
+      ...options
+    };
+  }
+
+  sync(): ContentSyncReport {
+    return this.apply(false);
+  }
+
+  /**
+   * 计算同步会产生的变更，但不写入任何文件
+   */
+  plan(): ContentSyncReport {
+    return this.apply(true);
+  }
+
+  private apply(dryRun: boolean): ContentSyncReport {
+    const { sourceDir, targetDir } = this.options;
+    const report: ContentSyncReport = {
+      added: [],
+      updated: [],
+      unchanged: [],
+      removed: [],
+      invalid: [],
+      collisions: []
+    };
+
+    const manifest = this.loadManifest();
+    const targetKey = relative(process.cwd(), targetDir) || '.';
+    const managed = manifest.targets[targetKey] || {};
+    const nextManaged: Record<string, ManifestEntry> = {};
+    const claimed = new Map<string, string>();
+
+    if (!dryRun) {
+      mkdirSync(targetDir, { recursive: true });
+    }
+
+    const sources = existsSync(sourceDir)
+      ? readdirSync(sourceDir).filter(file => file.endsWith('.md')).sort()
+      : [];
+
+    for (const file of sources) {
+      const sourcePath = join(sourceDir, file);
+      const { data, content } = matter(readFileSync(sourcePath, 'utf-8'));
+      const frontmatter = normalizeFrontmatter(data);
+
+      const validation = postFrontmatterSchema.safeParse(frontmatter);
+      if (!validation.success) {
+        report.invalid.push({
+          file,
+          errors: validation.error.errors.map(err => `${err.path.join('.') || '(root)'}: ${err.message}`)
+        });
+        // 校验失败时保留上一次同步的版本
+        const previous = Object.entries(managed).find(([, entry]) => entry.source === file);
+        if (previous) {
+          nextManaged[previous[0]] = previous[1];
+        }
+        continue;
+      }
+
+      const slug = basename(file, '.md').toLowerCase();
+      const targetFile = `${slug}.md`;
+      const targetPath = join(targetDir, targetFile);
+
+      const claimedBy = claimed.get(slug);
+      if (claimedBy) {
+        report.collisions.push({ file, slug, reason: `slug already used by ${claimedBy}` });
+        continue;
+      }
+
+      if (existsSync(targetPath) && !managed[targetFile]) {
+        report.collisions.push({ file, slug, reason: `conflicts with unmanaged post ${targetFile}` });
+        continue;
+      }
+
+      claimed.set(slug, file);
+      nextManaged[targetFile] = { source: file, syncedAt: new Date().toISOString() };
+
+      const output = matter.stringify(content, frontmatter);
+
+      if (!existsSync(targetPath)) {
+        if (!dryRun) writeFileSync(targetPath, output);
+        report.added.push(targetFile);
+      } else if (readFileSync(targetPath, 'utf-8') !== output) {
+        if (!dryRun) writeFileSync(targetPath, output);
+        report.updated.push(targetFile);
+      } else {
+        nextManaged[targetFile] = managed[targetFile];
+        report.unchanged.push(targetFile);
+      }
+    }
+
+    // 删除来源已不存在的受管文件
+    for (const [targetFile, entry] of Object.entries(managed)) {
+      if (nextManaged[targetFile]) {
+        continue;
+      }
+
+      if (!this.options.removeOrphans) {
+        nextManaged[targetFile] = entry;
+        continue;
+      }
+
+      const targetPath = join(targetDir, targetFile);
+      if (!dryRun && existsSync(targetPath)) {
+        unlinkSync(targetPath);
+      }
+      report.removed.push(targetFile);
+    }
+
+    if (!dryRun) {
+      manifest.targets[targetKey] = nextManaged;
+      this.saveManifest(manifest);
+    }
+
+    return report;
+  }
+
+  private loadManifest(): SyncManifest {
+    if (!existsSync(this.options.manifestPath)) {
+      return { targets: {} };
+    }
+
+    return JSON.parse(readFileSync(this.options.manifestPath, 'utf-8'));
+  }
+
+  private saveManifest(manifest: SyncManifest): void {
+    mkdirSync(dirname(this.options.manifestPath), { recursive: true });
+    writeFileSync(this.options.manifestPath, JSON.stringify(manifest, null, 2));
+  }
+}
+
+/**
+ * 把模型输出的 frontmatter 规范化为 posts 集合的字段格式
+ */
+function normalizeFrontmatter(data: Record<string, unknown>): Record<string, unknown> {
+  const { seo_score: seoScoreSnake, ...frontmatter } = data;
+
+  if (frontmatter.seoScore === undefined && seoScoreSnake !== undefined) {
+    frontmatter.seoScore = Number(seoScoreSnake);
+  }
+
+  for (const key of ['keywords', 'tags']) {
+    if (typeof frontmatter[key] === 'string') {
+      frontmatter[key] = (frontmatter[key] as string).split(',').map(item => item.trim()).filter(Boolean);
+    }
+  }
+
+  for (const key of ['date', 'updatedDate']) {
+    if (frontmatter[key] instanceof Date) {
+      frontmatter[key] = (frontmatter[key] as Date).toISOString().split('T')[0];
+    }
+  }
+
+  return frontmatter;
+}
@@ -0,0 +1,142 @@
+/**
+ * Cron Expression
+ * 5 段 cron 表达式解析（分 时 日 月 周），支持 *、列表、范围和步长
+ */
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+// 向后查找下一次运行时间的上限（约 5 年），防止 2 月 30 日之类的表达式死循环
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+export class CronExpression {
+  readonly source: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  // 日和周都被限定时，按 cron 惯例任一匹配即可
+  private dayOfMonthRestricted: boolean;
+  private dayOfWeekRestricted: boolean;
+
+  constructor(expression: string) {
+    this.source = expression.trim();
+    const fields = (ALIASES[this.source] || this.source).split(/\s+/);
+
+    if (fields.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+      parseField(field, FIELDS[i], expression)
+    );
+
+    this.minutes = minutes;
+    this.hours = hours;
+    this.daysOfMonth = daysOfMonth;
+    this.months = months;
+    // 周日既可写 0 也可写 7
+    this.daysOfWeek = new Set([...daysOfWeek].map(day => day % 7));
+    this.dayOfMonthRestricted = !fields[2].startsWith('*');
+    this.dayOfWeekRestricted = !fields[4].startsWith('*');
+  }
+
+  /**
+   * 判断某个时间（精确到分钟，本地时区）是否命中表达式
+   */
+  matches(date: Date): boolean {
+    return this.minutes.has(date.getMinutes())
+      && this.hours.has(date.getHours())
+      && this.months.has(date.getMonth() + 1)
+      && this.matchesDay(date);
+  }
+
+  /**
+   * 返回严格晚于 after 的下一次运行时间
+   */
+  next(after: Date): Date {
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+      if (!this.months.has(date.getMonth() + 1) || !this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0);
+        continue;
+      }
+
+      if (this.minutes.has(date.getMinutes())) {
+        return date;
+      }
+
+      date.setMinutes(date.getMinutes() + 1);
+    }
+
+    throw new Error(`Cron expression "${this.source}" never matches`);
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getDay());
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+
+    return dayOfMonth && dayOfWeek;
+  }
+}
+
+function parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+
+    let start = spec.min;
+    let end = spec.max;
+
+    if (range !== '*') {
+      const [startText, endText] = range.split('-');
+      start = Number(startText);
+      // "5/15" 表示从 5 开始每 15 个单位
+      end = endText !== undefined ? Number(endText) : stepText !== undefined ? spec.max : start;
+    }
+
+    if (![start, end, step].every(Number.isInteger) || step < 1 || start < spec.min || end > spec.max || start > end) {
+      throw new Error(`Invalid cron expression "${expression}": bad ${spec.name} field "${part}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,94 @@
+/**
+ * Dry Run Recorder
+ * 演练记录器 - plan 模式下各阶段记录将要发起的外部调用和预估成本，而不真正执行
+ */
+
+import { IMAGE_PRICING, estimateCost, type ModelPrice } from '@seo-spy/llm-budget';
+
+export interface PlannedCall {
+  stage: string;
+  // 调用的外部服务，如 anthropic、google-search-console、cloudflare
+  service: string;
+  action: string;
+  target: string;
+  details?: Record<string, unknown>;
+}
+
+export interface CostLine {
+  stage: string;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  // 价格表中没有的模型为 undefined
+  usd?: number;
+}
+
+export interface CostSummary {
+  inputTokens: number;
+  outputTokens: number;
+  usd: number;
+  lines: CostLine[];
+  // 无法估价的模型
+  unpriced: string[];
+}
+
+export class DryRunRecorder {
+  private calls: PlannedCall[] = [];
+  private costs: CostLine[] = [];
+  // budget.pricing 中补充或覆盖的价格
+  private pricing?: Record<string, ModelPrice>;
+
+  constructor(pricing?: Record<string, ModelPrice>) {
+    this.pricing = pricing;
+  }
+
+  record(call: PlannedCall): void {
+    this.calls.push(call);
+  }
+
+  /**
+   * 记录一次模型调用的 token 用量（同阶段同模型的调用会合并）
+   */
+  recordTokens(stage: string, model: string, inputTokens: number, outputTokens: number): void {
+    const line = this.findLine(stage, model);
+    line.requests++;
+    line.inputTokens += inputTokens;
+    line.outputTokens += outputTokens;
+    line.usd = estimateCost(model, line.inputTokens, line.outputTokens, this.pricing);
+  }
+
+  /**
+   * 记录一次图片生成
+   */
+  recordImage(stage: string, model: string, quality: string): void {
+    const key = `${model}:${quality}`;
+    const line = this.findLine(stage, key);
+    line.requests++;
+    line.usd = key in IMAGE_PRICING ? line.requests * IMAGE_PRICING[key] : undefined;
+  }
+
+  getCalls(): PlannedCall[] {
+    return this.calls;
+  }
+
+  getCost(): CostSummary {
+    return {
+      inputTokens: this.costs.reduce((sum, line) => sum + line.inputTokens, 0),
+      outputTokens: this.costs.reduce((sum, line) => sum + line.outputTokens, 0),
+      usd: this.costs.reduce((sum, line) => sum + (line.usd || 0), 0),
+      lines: this.costs,
+      unpriced: this.costs.filter(line => line.usd === undefined).map(line => line.model)
+    };
+  }
+
+  private findLine(stage: string, model: string): CostLine {
+    let line = this.costs.find(cost => cost.stage === stage && cost.model === model);
+    if (!line) {
+      line = { stage, model, requests: 0, inputTokens: 0, outputTokens: 0 };
+      this.costs.push(line);
+    }
+
+    return line;
+  }
+}
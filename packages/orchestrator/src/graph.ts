@@ -0,0 +1,165 @@
+/**
+ * Stage Graph
+ * 阶段依赖图 - 校验 DAG 并按依赖关系并发执行
+ */
+
+import type { FailurePolicy, StageFailureConfig, StageNode } from './types.js';
+
+const FAILURE_POLICIES: FailurePolicy[] = ['abort', 'continue', 'retry'];
+
+/**
+ * 未在 pipeline.config.json 中定义 stages 时使用的默认线性流程
+ */
+export const DEFAULT_STAGE_GRAPH: StageNode[] = [
+  { id: 'keyword-scraping' },
+  { id: 'article-generation', dependsOn: ['keyword-scraping'] },
+  { id: 'site-build', dependsOn: ['article-generation'] },
+  { id: 'deployment', dependsOn: ['site-build'] },
+  { id: 'sitemap-submission', dependsOn: ['deployment'] }
+];
+
+/**
+ * 展开节点的失败策略，未配置时为 abort
+ */
+export function resolveFailurePolicy(node: StageNode): StageFailureConfig {
+  if (!node.onFailure) {
+    return { policy: 'abort' };
+  }
+
+  return typeof node.onFailure === 'string' ? { policy: node.onFailure } : node.onFailure;
+}
+
+/**
+ * 校验阶段图：ID 唯一、依赖存在、无环、失败策略有效
+ * 返回拓扑排序后的节点 ID
+ */
+export function validateStageGraph(nodes: StageNode[]): string[] {
+  const ids = new Set<string>();
+
+  for (const node of nodes) {
+    if (ids.has(node.id)) {
+      throw new Error(`Duplicate stage id in pipeline graph: ${node.id}`);
+    }
+    ids.add(node.id);
+  }
+
+  for (const node of nodes) {
+    for (const dep of node.dependsOn || []) {
+      if (!ids.has(dep)) {
+        throw new Error(`Stage "${node.id}" depends on unknown stage "${dep}"`);
+      }
+    }
+  }
+
+  // Kahn 拓扑排序检测环
+  const inDegree = new Map(nodes.map(node => [node.id, (node.dependsOn || []).length]));
+  const queue = nodes.filter(node => inDegree.get(node.id) === 0).map(node => node.id);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+
+    for (const node of nodes) {
+      if (node.dependsOn?.includes(id)) {
+        const remaining = inDegree.get(node.id)! - 1;
+        inDegree.set(node.id, remaining);
+        if (remaining === 0) {
+          queue.push(node.id);
+        }
+      }
+    }
+  }
+
+  if (order.length !== nodes.length) {
+    const cyclic = nodes.filter(node => !order.includes(node.id)).map(node => node.id);
+    throw new Error(`Pipeline graph contains a cycle between: ${cyclic.join(', ')}`);
+  }
+
+  for (const node of nodes) {
+    const failure = resolveFailurePolicy(node);
+
+    if (!FAILURE_POLICIES.includes(failure.policy)) {
+      throw new Error(`Stage "${node.id}" has unknown failure policy "${failure.policy}", expected ${FAILURE_POLICIES.join(' | ')}`);
+    }
+
+    // 只能补偿在本阶段之前必然已完成的上游阶段
+    const upstream = getUpstream(nodes, node.id);
+    for (const id of failure.compensate || []) {
+      if (!upstream.has(id)) {
+        throw new Error(`Stage "${node.id}" can only compensate its upstream stages, "${id}" is not one`);
+      }
+    }
+  }
+
+  return order;
+}
+
+/**
+ * 节点的所有（直接和间接）上游节点 ID
+ */
+function getUpstream(nodes: StageNode[], id: string): Set<string> {
+  const upstream = new Set<string>();
+  const queue = [id];
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    const node = nodes.find(n => n.id === current)!;
+    for (const dep of node.dependsOn || []) {
+      if (!upstream.has(dep)) {
+        upstream.add(dep);
+        queue.push(dep);
+      }
+    }
+  }
+
+  return upstream;
+}
+
+/**
+ * 按依赖关系执行阶段图，依赖已满足的节点并发运行
+ * 任一节点失败后不再启动新节点，等待运行中的节点结束后抛出首个错误
+ */
+export async function runStageGraph(
+  nodes: StageNode[],
+  runNode: (node: StageNode) => Promise<void>
+): Promise<void> {
+  validateStageGraph(nodes);
+
+  const completed = new Set<string>();
+  const pending = [...nodes];
+  const running = new Map<string, Promise<{ id: string; error?: unknown }>>();
+  let failure: { error: unknown } | undefined;
+
+  while (pending.length > 0 || running.size > 0) {
+    if (!failure) {
+      for (const node of pending.filter(n => (n.dependsOn || []).every(dep => completed.has(dep)))) {
+        pending.splice(pending.indexOf(node), 1);
+        running.set(
+          node.id,
+          runNode(node).then(
+            () => ({ id: node.id }),
+            error => ({ id: node.id, error })
+          )
+        );
+      }
+    }
+
+    if (running.size === 0) {
+      break;
+    }
+
+    const settled = await Promise.race(running.values());
+    running.delete(settled.id);
+
+    if (settled.error !== undefined) {
+      failure = failure || { error: settled.error };
+    } else {
+      completed.add(settled.id);
+    }
+  }
+
+  if (failure) {
+    throw failure.error;
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Run History
+ * 运行历史 - 保存每次运行的报告并建立索引，支持对比两次运行
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import type { PipelineReport, PipelineResult, RunStatus } from './orchestrator.js';
+
+export interface RunIndexEntry {
+  // runs show / diff 使用的报告 ID，续跑为 <runId>-resume-<n>
+  reportId: string;
+  runId: string;
+  attempt: number;
+  timestamp: string;
+  status: RunStatus;
+  totalDuration: number;
+  siteId?: string;
+  articles: number;
+  succeeded: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface StageDiff {
+  stage: string;
+  statusA?: PipelineResult['status'];
+  statusB?: PipelineResult['status'];
+  durationA?: number;
+  durationB?: number;
+}
+
+export interface ConfigChange {
+  path: string;
+  a: unknown;
+  b: unknown;
+}
+
+export interface RunDiff {
+  a: RunIndexEntry;
+  b: RunIndexEntry;
+  stages: StageDiff[];
+  configChanges: ConfigChange[];
+}
+
+export class RunHistory {
+  private dir: string;
+
+  constructor(dir: string = join(process.cwd(), 'data/logs/runs')) {
+    this.dir = dir;
+  }
+
+  /**
+   * 保存报告并更新索引；续跑有自己的报告 ID，之前各次执行的报告都保留
+   */
+  save(report: PipelineReport): string {
+    mkdirSync(this.dir, { recursive: true });
+
+    const reportPath = this.getPath(report.reportId);
+    writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
+    const index = this.list(Infinity).filter(entry => entry.reportId !== report.reportId).reverse();
+    index.push(summarize(report));
+    writeFileSync(this.getIndexPath(), JSON.stringify({ runs: index }, null, 2));
+
+    return reportPath;
+  }
+
+  /**
+   * 最近的运行，按时间倒序
+   */
+  list(limit = 20): RunIndexEntry[] {
+    if (!existsSync(this.getIndexPath())) {
+      return [];
+    }
+
+    const runs: RunIndexEntry[] = JSON.parse(readFileSync(this.getIndexPath(), 'utf-8')).runs || [];
+    return runs.slice(-limit).reverse();
+  }
+
+  /**
+   * 按报告 ID 读取；运行 ID 即其首次执行的报告
+   */
+  load(reportId: string): PipelineReport {
+    const reportPath = this.getPath(reportId);
+    if (!existsSync(reportPath)) {
+      throw new Error(`No report found for run ${reportId} (${reportPath})`);
+    }
+
+    return JSON.parse(readFileSync(reportPath, 'utf-8'));
+  }
+
+  diff(reportIdA: string, reportIdB: string): RunDiff {
+    const a = this.load(reportIdA);
+    const b = this.load(reportIdB);
+
+    const stageNames = [...new Set([...a.stages, ...b.stages].map(result => result.stage))];
+    const stages = stageNames.map(stage => {
+      const resultA = a.stages.find(result => result.stage === stage);
+      const resultB = b.stages.find(result => result.stage === stage);
+
+      return {
+        stage,
+        statusA: resultA?.status,
+        statusB: resultB?.status,
+        durationA: resultA?.duration,
+        durationB: resultB?.duration
+      };
+    });
+
+    return {
+      a: summarize(a),
+      b: summarize(b),
+      stages,
+      configChanges: diffValues(a.config, b.config)
+    };
+  }
+
+  private getPath(reportId: string): string {
+    return join(this.dir, `${reportId}.json`);
+  }
+
+  private getIndexPath(): string {
+    return join(this.dir, 'index.json');
+  }
+}
+
+function summarize(report: PipelineReport): RunIndexEntry {
+  const count = (status: PipelineResult['status']) => report.stages.filter(result => result.status === status).length;
+
+  return {
+    reportId: report.reportId,
+    runId: report.runId,
+    attempt: report.attempt,
+    timestamp: report.timestamp,
+    status: report.status,
+    totalDuration: report.totalDuration,
+    ...(report.config.site ? { siteId: report.config.site.id } : {}),
+    articles: report.articles,
+    succeeded: count('success'),
+    skipped: count('skipped'),
+    failed: count('failed')
+  };
+}
+
+/**
+ * 递归比较两份配置，返回发生变化的字段路径
+ */
+function diffValues(a: unknown, b: unknown, path = ''): ConfigChange[] {
+  if (isObject(a) && isObject(b)) {
+    const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+    return keys.flatMap(key => diffValues(a[key], b[key], path ? `${path}.${key}` : key));
+  }
+
+  if (JSON.stringify(a) === JSON.stringify(b)) {
+    return [];
+  }
+
+  return [{ path: path || '(root)', a, b }];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
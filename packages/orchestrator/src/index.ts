@@ -3,14 +3,26 @@
 /**
  * SEO 矩阵系统 - 任务编排中心
  * 统一管理：关键词爬取 → 文章生成 → 站点构建 → 自动部署 → Sitemap提交
+ * 阶段以依赖图（DAG）形式在 pipeline.config.json 中定义，互不依赖的分支并发执行
  */
 
-import { execSync } from 'child_process';
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
-import { loadConfig, validateFeatureConfig } from '@seo-spy/config';
+import { loadConfig } from '@seo-spy/config';
 import { createLogger } from '@seo-spy/logger';
 import { setupGlobalErrorHandlers } from '@seo-spy/error-handler';
+import { loadProvenance } from '@seo-spy/article-gen';
+import { formatPromptVersion } from '@seo-spy/prompts';
+import { TopicPlanner, getPlanEntries, loadTopicPlan, saveTopicPlan, type TopicPlan } from '@seo-spy/topic-planner';
+import { SEOPipelineOrchestrator, describePolicy } from './orchestrator.js';
+import { MultiSiteRunner } from './sites.js';
+import { JobHistory, PipelineScheduler } from './scheduler.js';
+import { PipelinePlanner, savePlans } from './planner.js';
+import { RunHistory } from './history.js';
+import { ArticleRefresher } from './refresh.js';
+import { getKeywordCandidates } from './stages.js';
+import { getDataDir, getTopicPlanPath } from './paths.js';
+import type { PipelineConfig } from './types.js';
 
 // 设置全局错误处理
 setupGlobalErrorHandlers();
@@ -25,243 +37,400 @@ logger.info('Configuration loaded successfully', {
   apiPort: config.API_PORT
 });
 
-interface PipelineConfig {
-  // 关键词配置
-  keywords: {
-    enabled: boolean;
-    niches: string[];
-    maxKeywords: number;
-  };
-  // 文章生成配置
-  articles: {
-    enabled: boolean;
-    count: number;
-    minWords: number;
-  };
-  // 站点构建配置
-  build: {
-    enabled: boolean;
-    outputDir: string;
-  };
-  // 部署配置
-  deploy: {
-    enabled: boolean;
-    platform: 'cloudflare' | 'vercel';
-  };
-  // Sitemap 提交配置
-  sitemap: {
-    enabled: boolean;
-    autoSubmit: boolean;
-  };
-}
-
-interface PipelineResult {
-  stage: string;
-  status: 'success' | 'failed' | 'skipped';
-  duration: number;
-  output?: any;
-  error?: string;
-}
-
-class SEOPipelineOrchestrator {
-  private config: PipelineConfig;
-  private results: PipelineResult[] = [];
+/**
+ * 读取 CONFIG_PATH 或 pipeline.config.json，不存在时使用默认配置
+ */
+function loadPipelineConfig(): PipelineConfig {
+  const configPath = process.env.CONFIG_PATH || join(process.cwd(), 'pipeline.config.json');
 
-  constructor(config: PipelineConfig) {
-    this.config = config;
+  if (existsSync(configPath)) {
+    logger.info(`📄 Loaded config from: ${configPath}`);
+    return JSON.parse(readFileSync(configPath, 'utf-8'));
   }
 
-  async execute(): Promise<void> {
-    logger.info('🚀 Starting SEO Pipeline Execution...');
-
-    const startTime = Date.now();
+  logger.warn('⚠️  Using default configuration');
+
+  // 默认配置
+  return {
+    keywords: {
+      enabled: true,
+      niches: ['前端开发', 'React教程', 'TypeScript入门', 'Astro框架'],
+      maxKeywords: 100
+    },
+    articles: {
+      enabled: true,
+      count: 10,
+      minWords: 1500
+    },
+    build: {
+      enabled: true,
+      outputDir: './dist'
+    },
+    deploy: {
+      enabled: false, // 默认禁用部署
+      platform: 'cloudflare'
+    },
+    sitemap: {
+      enabled: true,
+      autoSubmit: false // 默认禁用自动提交
+    }
+  };
+}
 
-    // Stage 1: 关键词爬取
-    await this.runStage('keyword-scraping', this.runKeywordScraping.bind(this));
+/**
+ * scheduler start | scheduler history [--job <id>] [--limit <n>]
+ */
+function runSchedulerCommand(args: string[]): void {
+  const [command] = args;
 
-    // Stage 2: 文章生成
-    await this.runStage('article-generation', this.runArticleGeneration.bind(this));
+  if (command === 'start') {
+    const scheduler = new PipelineScheduler(loadPipelineConfig());
 
-    // Stage 3: 站点构建
-    await this.runStage('site-build', this.runSiteBuild.bind(this));
+    const shutdown = () => {
+      scheduler.stop().then(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
 
-    // Stage 4: 自动部署
-    await this.runStage('deployment', this.runDeployment.bind(this));
+    scheduler.start().catch(error => {
+      logger.fatal('💥 Scheduler failed to start:', error as Error);
+      process.exit(1);
+    });
+    return;
+  }
 
-    // Stage 5: Sitemap 提交
-    await this.runStage('sitemap-submission', this.runSitemapSubmission.bind(this));
+  if (command === 'history') {
+    const jobIndex = args.indexOf('--job');
+    const limitIndex = args.indexOf('--limit');
+    const jobId = jobIndex !== -1 ? args[jobIndex + 1] : undefined;
+    const limit = limitIndex !== -1 ? Number(args[limitIndex + 1]) : 20;
 
-    const totalDuration = Date.now() - startTime;
+    const runs = new JobHistory().list(jobId, limit);
+    if (runs.length === 0) {
+      console.log('No scheduled runs recorded yet.');
+      return;
+    }
 
-    // 生成报告
-    this.generateReport(totalDuration);
+    for (const run of runs) {
+      const icon = run.status === 'success' ? '✅' : run.status === 'skipped' ? '⏭️ ' : '❌';
+      const duration = (run.duration / 1000).toFixed(2);
+      const note = run.catchUp ? ' (catch-up)' : '';
+      console.log(`${icon} ${run.scheduledFor}  ${run.jobId.padEnd(20)} ${duration.padStart(8)}s  ${run.runId || ''}${note}`);
+      if (run.error) {
+        console.log(`   Error: ${run.error}`);
+      }
+    }
+    return;
   }
 
-  private async runStage(
-    stageName: string,
-    handler: () => Promise<void>
-  ): Promise<void> {
-    const startTime = Date.now();
-    logger.info(`📋 Stage: ${stageName.toUpperCase()}`);
-
-    try {
-      await handler();
+  logger.error('❌ Usage: scheduler start | scheduler history [--job <id>] [--limit <n>]');
+  process.exit(1);
+}
 
-      this.results.push({
-        stage: stageName,
-        status: 'success',
-        duration: Date.now() - startTime
-      });
+/**
+ * plan [--site <id> | --all-sites]：预演流水线，不执行任何外部调用
+ */
+function runPlanCommand(args: string[]): void {
+  const siteIndex = args.indexOf('--site');
+  const siteId = siteIndex !== -1 ? args[siteIndex + 1] : undefined;
+  const pipelineConfig = loadPipelineConfig();
+
+  const plans = siteId || args.includes('--all-sites')
+    ? new MultiSiteRunner(pipelineConfig, process.env.CLUSTER_CONFIG_PATH).plan(siteId)
+    : new PipelinePlanner(pipelineConfig).plan().then(plan => [plan]);
+
+  plans.then(result => {
+    logger.info(`📝 Plan saved to: ${savePlans(result)}`);
+  }).catch(error => {
+    logger.fatal('💥 Plan failed:', error as Error);
+    process.exit(1);
+  });
+}
 
-      logger.info(`✅ ${stageName} completed successfully`);
-    } catch (error) {
-      this.results.push({
-        stage: stageName,
-        status: 'failed',
-        duration: Date.now() - startTime,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+/**
+ * runs list [--limit <n>] | runs show <runId> | runs diff <runA> <runB>
+ */
+function runRunsCommand(args: string[]): void {
+  const [command, ...rest] = args;
+  const history = new RunHistory();
+  const statusIcon = (status: string) => status === 'success' ? '✅' : status === 'failed' ? '❌' : '⚠️ ';
+  const seconds = (ms?: number) => ms === undefined ? '-' : `${(ms / 1000).toFixed(2)}s`;
+
+  if (command === 'list') {
+    const limitIndex = rest.indexOf('--limit');
+    const runs = history.list(limitIndex !== -1 ? Number(rest[limitIndex + 1]) : 20);
+
+    if (runs.length === 0) {
+      console.log('No runs recorded yet.');
+      return;
+    }
 
-      logger.error(`❌ ${stageName} failed:`, error as Error);
-      throw error; // 失败则停止整个流程
+    for (const run of runs) {
+      console.log(
+        `${statusIcon(run.status)} ${run.reportId.padEnd(29)} ${run.timestamp}  ${run.status.padEnd(8)} ` +
+        `${seconds(run.totalDuration).padStart(9)}  ${run.succeeded}✓ ${run.skipped}⏭ ${run.failed}✗  ` +
+        `${run.articles} articles${run.siteId ? `  [${run.siteId}]` : ''}`
+      );
     }
+    return;
   }
 
-  private async runKeywordScraping(): Promise<void> {
-    if (!this.config.keywords.enabled) {
-      logger.info('⏭️  Keyword scraping disabled, skipping...');
-      return;
+  if (command === 'show' && rest[0]) {
+    const report = history.load(rest[0]);
+
+    console.log(`${statusIcon(report.status)} ${report.reportId} — ${report.status} at ${report.timestamp} (${seconds(report.totalDuration)})`);
+    if (report.attempt > 1) {
+      console.log(`   Resume ${report.attempt - 1} of run ${report.runId}`);
     }
+    console.log(`   Articles: ${report.articles}${report.config.site ? `   Site: ${report.config.site.id}` : ''}`);
 
-    logger.info(`🔍 Scraping keywords for niches: ${this.config.keywords.niches.join(', ')}`);
-    logger.info(`📊 Target: ${this.config.keywords.maxKeywords} keywords`);
+    for (const result of report.stages) {
+      const icon = result.status === 'success' ? '✅' : result.status === 'skipped' ? '⏭️ ' : '❌';
+      const note = result.resumed ? ' (from checkpoint)' : result.reason ? ` (${result.reason})` : '';
+      console.log(`${icon} ${result.stage.padEnd(25)} ${seconds(result.duration).padStart(9)}${note}`);
+      if (result.error) {
+        console.log(`   Error: ${result.error}`);
+      }
+      if (result.policy) {
+        console.log(`   ${describePolicy(result.policy)}`);
+        for (const compensation of result.policy.compensations || []) {
+          console.log(`   ↩️  compensate ${compensation.stage}: ${compensation.status}${compensation.error ? ` (${compensation.error})` : ''}`);
+        }
+      }
+    }
 
-    // 调用 keyword-spy 模块
-    execSync('pnpm -F @seo-spy/keyword-spy build', { stdio: 'inherit' });
-    execSync('node packages/keyword-spy/dist/index.js', { stdio: 'inherit' });
+    if (report.unprocessedKeywords?.length) {
+      console.log(`💸 Unprocessed keywords: ${report.unprocessedKeywords.join(', ')}`);
+    }
+    if (report.quarantinedArticles?.length) {
+      console.log(`🚧 Quarantined articles: ${report.quarantinedArticles.join(', ')}`);
+    }
+    for (const pair of report.duplicates || []) {
+      console.log(`♊ ${pair.a} ↔ ${pair.b}: ${Math.round(pair.similarity * 100)}% similar, ${pair.suggestion} into ${pair.canonical}`);
+    }
+    return;
   }
 
-  private async runArticleGeneration(): Promise<void> {
-    if (!this.config.articles.enabled) {
-      logger.info('⏭️  Article generation disabled, skipping...');
-      return;
+  if (command === 'diff' && rest[0] && rest[1]) {
+    const diff = history.diff(rest[0], rest[1]);
+
+    console.log(`🔀 ${diff.a.reportId} (${diff.a.status}) → ${diff.b.reportId} (${diff.b.status})`);
+    console.log(`   Duration: ${seconds(diff.a.totalDuration)} → ${seconds(diff.b.totalDuration)}`);
+    console.log(`   Articles: ${diff.a.articles} → ${diff.b.articles}`);
+    console.log(`   Failed stages: ${diff.a.failed} → ${diff.b.failed}\n`);
+
+    for (const stage of diff.stages) {
+      const changed = stage.statusA !== stage.statusB ? `  ${stage.statusA || '-'} → ${stage.statusB || '-'}` : '';
+      const delta = stage.durationA !== undefined && stage.durationB !== undefined
+        ? ` (${stage.durationB >= stage.durationA ? '+' : ''}${((stage.durationB - stage.durationA) / 1000).toFixed(2)}s)`
+        : '';
+      console.log(
+        `   ${stage.stage.padEnd(25)} ${seconds(stage.durationA).padStart(9)} → ${seconds(stage.durationB).padStart(9)}${delta}${changed}`
+      );
     }
 
-    const validation = validateFeatureConfig('article-gen');
-    if (!validation.valid) {
-      throw new Error(`Article generation configuration missing: ${validation.missing.join(', ')}`);
+    if (diff.configChanges.length === 0) {
+      console.log('\n   Config: unchanged');
+    } else {
+      console.log(`\n   Config changes (${diff.configChanges.length}):`);
+      for (const change of diff.configChanges) {
+        console.log(`   ~ ${change.path}: ${JSON.stringify(change.a)} → ${JSON.stringify(change.b)}`);
+      }
     }
+    return;
+  }
 
-    logger.info(`🤖 Generating ${this.config.articles.count} articles`);
-    logger.info(`📝 Min words per article: ${this.config.articles.minWords}`);
+  logger.error('❌ Usage: runs list [--limit <n>] | runs show <runId> | runs diff <runA> <runB>');
+  process.exit(1);
+}
 
-    // 调用 article-gen 模块
-    execSync('pnpm -F @seo-spy/article-gen build', { stdio: 'inherit' });
-    execSync('node packages/article-gen/dist/index.js', { stdio: 'inherit' });
+/**
+ * refresh [--older-than <days>] [--rank-drop <n>] [--tag <tag>] [--slug <slug>] [--limit <n>] [--brief <text>] [--dry-run]
+ * refresh versions <slug> | refresh revert <slug> [versionId]
+ */
+function runRefreshCommand(args: string[]): void {
+  const pipelineConfig = loadPipelineConfig();
+  const refresher = new ArticleRefresher(pipelineConfig);
+  const usage = '❌ Usage: refresh [--older-than <days>] [--rank-drop <n>] [--tag <tag>] [--slug <slug>] [--limit <n>] ' +
+    '[--brief <text>] [--dry-run] | refresh versions <slug> | refresh revert <slug> [versionId]';
+
+  if (args[0] === 'versions' && args[1]) {
+    const versions = refresher.versions(args[1]);
+    console.log(versions.length > 0 ? versions.map(version => version.id).join('\n') : `No saved versions for ${args[1]}`);
+    return;
   }
 
-  private async runSiteBuild(): Promise<void> {
-    if (!this.config.build.enabled) {
-      logger.info('⏭️  Site build disabled, skipping...');
-      return;
+  if (args[0] === 'revert' && args[1]) {
+    try {
+      const version = refresher.revert(args[1], args[2]);
+      logger.info(`↩️  Reverted ${args[1]} to version ${version.id}`);
+    } catch (error) {
+      logger.error(`❌ ${(error as Error).message}`);
+      process.exit(1);
     }
-
-    logger.info(`🏗️  Building site...`);
-
-    // 复制生成的文章到 Astro 内容目录
-    this.copyArticlesToSite();
-
-    // 调用 Astro 构建
-    execSync('pnpm -F @seo-spy/site-template build', { stdio: 'inherit' });
+    return;
   }
 
-  private async runDeployment(): Promise<void> {
-    if (!this.config.deploy.enabled) {
-      logger.info('⏭️  Deployment disabled, skipping...');
-      return;
+  const value = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+  const values = (flag: string) => args.flatMap((arg, index) => arg === flag && args[index + 1] ? [args[index + 1]] : []);
+  const number = (flag: string) => value(flag) !== undefined ? Number(value(flag)) : undefined;
+
+  const defaults = pipelineConfig.refresh || {};
+  const flagged = ['--older-than', '--rank-drop', '--tag', '--slug'].some(flag => args.includes(flag));
+  const criteria = flagged
+    ? {
+      olderThanDays: number('--older-than'),
+      rankDrop: number('--rank-drop'),
+      tags: values('--tag'),
+      slugs: values('--slug'),
+      limit: number('--limit') ?? defaults.limit
     }
+    : { ...defaults, limit: number('--limit') ?? defaults.limit };
 
-    const platform = this.config.deploy.platform;
-    logger.info(`🚀 Deploying to ${platform}...`);
+  const hasCriteria = criteria.olderThanDays !== undefined || criteria.rankDrop !== undefined ||
+    Boolean(criteria.tags?.length) || Boolean(criteria.slugs?.length);
+  if (!hasCriteria) {
+    logger.error(usage);
+    process.exit(1);
+  }
 
-    // 调用 deploy 模块
-    execSync('pnpm -F @seo-spy/deploy build', { stdio: 'inherit' });
-    execSync('node packages/deploy/dist/index.js', { stdio: 'inherit' });
+  if (args.includes('--dry-run')) {
+    const candidates = refresher.select(criteria);
+    console.log(`\n🔄 ${candidates.length} article(s) would be refreshed:`);
+    for (const candidate of candidates) {
+      console.log(`   ${candidate.slug}: ${candidate.reasons.join('; ')}`);
+    }
+    return;
   }
 
-  private async runSitemapSubmission(): Promise<void> {
-    if (!this.config.sitemap.enabled) {
-      logger.info('⏭️  Sitemap submission disabled, skipping...');
-      return;
+  refresher.refresh(criteria, value('--brief') ?? defaults.brief).then(report => {
+    logger.info(`🔄 Refreshed ${report.refreshed.length}/${report.candidates.length} article(s)`);
+    for (const failure of report.failed) {
+      logger.warn(`   ❌ ${failure.slug}: ${failure.error}`);
     }
+    if (report.refreshed.length > 0) {
+      logger.info('💡 Run the pipeline to sync, rebuild and deploy; revert with: refresh revert <slug>');
+    }
+    if (report.failed.length > 0) {
+      process.exit(1);
+    }
+  }).catch(error => {
+    logger.fatal('💥 Refresh failed:', error as Error);
+    process.exit(1);
+  });
+}
 
-    if (!this.config.sitemap.autoSubmit) {
-      logger.info('📋 Sitemap generated (auto-submit disabled)');
-      return;
+/**
+ * topics plan [--force]：用最近的关键词创建专题规划，已有规划时只并入新关键词（--force 重新规划）
+ * topics show：查看规划和生成进度
+ */
+function runTopicsCommand(args: string[]): void {
+  const pipelineConfig = loadPipelineConfig();
+  const path = getTopicPlanPath(pipelineConfig);
+
+  const print = (plan: TopicPlan) => {
+    for (const cluster of plan.clusters) {
+      console.log(`\n🗂️  ${cluster.id}`);
+      for (const { role, article } of getPlanEntries(plan).filter(entry => entry.cluster === cluster)) {
+        const status = article.slug ? `✅ ${article.slug}` : '⏳';
+        console.log(`   ${role === 'pillar' ? '🏛️ ' : '  └'} ${article.keyword} (${article.volume}) ${status}`);
+      }
     }
+  };
 
-    const googleKeyPath = config.GOOGLE_SERVICE_ACCOUNT_KEY_PATH;
-    if (!googleKeyPath) {
-      logger.warn('⚠️  GOOGLE_SERVICE_ACCOUNT_KEY_PATH not set, skipping...');
+  try {
+    if (args[0] === 'plan') {
+      const existing = args.includes('--force') ? undefined : loadTopicPlan(path);
+      const candidates = getKeywordCandidates(pipelineConfig, {}, logger);
+      const plan = new TopicPlanner(pipelineConfig.articles.topics).plan(candidates, existing);
+      const added = getPlanEntries(plan).length - (existing ? getPlanEntries(existing).length : 0);
+
+      saveTopicPlan(path, plan);
+      print(plan);
+      logger.info(`🗂️  ${plan.clusters.length} cluster(s), ${added} new keyword(s) planned: ${path}`);
+      logger.info('💡 Edit the plan to regroup or drop keywords, then run the pipeline with articles.topics set');
       return;
     }
 
-    logger.info('📤 Submitting sitemap to search engines...');
-
-    // 调用 sitemap-submitter 模块
-    execSync('pnpm -F @seo-spy/sitemap-submitter build', { stdio: 'inherit' });
-    execSync('node packages/sitemap-submitter/dist/index.js', { stdio: 'inherit' });
-  }
-
-  private copyArticlesToSite(): void {
-    const sourceDir = join(process.cwd(), 'data/articles');
-    const targetDir = join(process.cwd(), 'packages/site-template/src/content/posts');
+    if (args[0] === 'show') {
+      const plan = loadTopicPlan(path);
+      if (!plan) {
+        logger.error(`❌ No topic plan at ${path}, create one with: topics plan`);
+        process.exit(1);
+      }
 
-    if (!existsSync(sourceDir)) {
-      logger.warn('⚠️  No articles found to copy');
+      print(plan);
+      const entries = getPlanEntries(plan);
+      console.log(`\n${entries.filter(entry => entry.article.slug).length}/${entries.length} article(s) generated`);
       return;
     }
-
-    mkdirSync(targetDir, { recursive: true });
-
-    // 这里应该实现文件复制逻辑
-    // 简化处理：假设已通过符号链接或其他方式处理
-    logger.info('📄 Articles linked to site content directory');
+  } catch (error) {
+    logger.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
   }
 
-  private generateReport(totalDuration: number): void {
-    logger.info('📊 PIPELINE EXECUTION REPORT');
+  logger.error('❌ Usage: topics plan [--force] | topics show');
+  process.exit(1);
+}
 
-    const durationMinutes = Math.floor(totalDuration / 60000);
-    const durationSeconds = Math.floor((totalDuration % 60000) / 1000);
+/**
+ * provenance show <slug> [--json]：查看文章的生成溯源记录
+ */
+function runProvenanceCommand(args: string[]): void {
+  if (args[0] !== 'show' || !args[1]) {
+    logger.error('❌ Usage: provenance show <slug> [--json]');
+    process.exit(1);
+  }
 
-    logger.info(`⏱️  Total Duration: ${durationMinutes}m ${durationSeconds}s`);
+  const outputDir = getDataDir(loadPipelineConfig());
+  const record = loadProvenance(outputDir, args[1]);
+  if (!record) {
+    logger.error(`❌ No provenance record for ${args[1]} in ${outputDir}/provenance`);
+    process.exit(1);
+  }
 
-    this.results.forEach(result => {
-      const icon = result.status === 'success' ? '✅' : '❌';
-      const duration = (result.duration / 1000).toFixed(2);
-      logger.info(`${icon} ${result.stage.padEnd(25)} ${duration}s`);
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(record, null, 2));
+    return;
+  }
 
-      if (result.error) {
-        logger.error(`   Error: ${result.error}`);
-      }
-    });
+  console.log(`🧾 ${record.slug} — ${record.title}`);
+  console.log(`   Keyword: ${record.keyword}`);
+  console.log(`   Provider: ${record.provider} (${record.model})${record.temperature !== undefined ? `, temperature ${record.temperature}` : ''}`);
+  console.log(`   Run: ${record.runId || '-'}   Generated: ${record.generatedAt}   SEO score: ${record.seoScore}`);
+  console.log(`   Prompt hash: ${record.promptHash || '-'}`);
+  console.log(`   Templates: ${record.prompts.map(formatPromptVersion).join(', ') || '-'}`);
+  console.log(`   Usage: ${record.usage.requests} request(s), ${record.usage.inputTokens} input / ${record.usage.outputTokens} output tokens`);
+  if (record.stitched) {
+    console.log('   🔌 Assembled from more than one stream after a dropped connection');
+  }
 
-    // 保存报告到文件
-    const reportPath = join(process.cwd(), 'data/logs/pipeline-report.json');
-    mkdirSync(join(process.cwd(), 'data/logs'), { recursive: true });
+  if (record.passes.length > 0) {
+    console.log('\n   Passes:');
+    for (const pass of record.passes) {
+      const tokens = pass.promptHash ? `${pass.inputTokens}/${pass.outputTokens} tokens  #${pass.promptHash.slice(0, 12)}` : 'local check';
+      const streams = pass.streams ? `  (${pass.streams} streams)` : '';
+      const issues = pass.issues ? `  issues: ${pass.issues.join(', ') || 'none'}` : '';
+      console.log(`   - ${pass.pass.padEnd(9)} ${(pass.target || '').padEnd(20)} ${tokens}${streams}${issues}`);
+    }
+  }
 
-    const reportData = {
-      timestamp: new Date().toISOString(),
-      totalDuration,
-      stages: this.results,
-      config: this.config
-    };
+  if (record.repairs?.length) {
+    console.log(`   Output repairs: ${record.repairs.join(', ')}`);
+  }
 
-    writeFileSync(reportPath, JSON.stringify(reportData, null, 2));
-    logger.info(`📝 Report saved to: ${reportPath}`);
+  if (record.revisions.length > 0) {
+    console.log('\n   Revisions:');
+    for (const revision of record.revisions) {
+      console.log(`   - ${revision.at}  ${revision.kind.padEnd(8)} ${revision.provider || '-'} (${revision.model || '-'})  ${revision.runId || ''}${revision.note ? `  ${revision.note}` : ''}`);
+    }
+  }
 
-    logger.info('🎉 Pipeline completed successfully!');
+  if (record.previous?.length) {
+    console.log(`\n   ${record.previous.length} earlier generation(s) of this slug kept in the record (see --json)`);
   }
 }
 
@@ -270,47 +439,64 @@ class SEOPipelineOrchestrator {
 // ============================================
 
 if (import.meta.url === `file://${process.argv[1]}`) {
-  // 读取配置或使用默认值
-  const configPath = process.env.CONFIG_PATH || join(process.cwd(), 'pipeline.config.json');
+  const args = process.argv.slice(2);
+
+  if (args[0] === 'scheduler') {
+    runSchedulerCommand(args.slice(1));
+  } else if (args[0] === 'plan') {
+    runPlanCommand(args.slice(1));
+  } else if (args[0] === 'runs') {
+    runRunsCommand(args.slice(1));
+  } else if (args[0] === 'refresh') {
+    runRefreshCommand(args.slice(1));
+  } else if (args[0] === 'topics') {
+    runTopicsCommand(args.slice(1));
+  } else if (args[0] === 'provenance') {
+    runProvenanceCommand(args.slice(1));
+  } else {
+    // 解析命令行参数：--resume <runId> | --site <id> | --all-sites
+    const resumeIndex = args.indexOf('--resume');
+    const resumeRunId = resumeIndex !== -1 ? args[resumeIndex + 1] : undefined;
+    const siteIndex = args.indexOf('--site');
+    const siteId = siteIndex !== -1 ? args[siteIndex + 1] : undefined;
+    const allSites = args.includes('--all-sites');
+
+    if (resumeIndex !== -1 && !resumeRunId) {
+      logger.error('❌ --resume requires a run ID, e.g. --resume run-1700000000000');
+      process.exit(1);
+    }
 
-  let pipelineConfig: PipelineConfig;
+    if (siteIndex !== -1 && !siteId) {
+      logger.error('❌ --site requires a site ID from data/cluster-config.json');
+      process.exit(1);
+    }
 
-  if (existsSync(configPath)) {
-    pipelineConfig = JSON.parse(readFileSync(configPath, 'utf-8'));
-    logger.info(`📄 Loaded config from: ${configPath}`);
-  } else {
-    // 默认配置
-    pipelineConfig = {
-      keywords: {
-        enabled: true,
-        niches: ['前端开发', 'React教程', 'TypeScript入门', 'Astro框架'],
-        maxKeywords: 100
-      },
-      articles: {
-        enabled: true,
-        count: 10,
-        minWords: 1500
-      },
-      build: {
-        enabled: true,
-        outputDir: './dist'
-      },
-      deploy: {
-        enabled: false, // 默认禁用部署
-        platform: 'cloudflare'
-      },
-      sitemap: {
-        enabled: true,
-        autoSubmit: false // 默认禁用自动提交
-      }
-    };
+    if ([resumeRunId, siteId, allSites].filter(Boolean).length > 1) {
+      logger.error('❌ --resume, --site and --all-sites cannot be combined');
+      process.exit(1);
+    }
 
-    logger.warn('⚠️  Using default configuration');
-  }
+    const pipelineConfig = loadPipelineConfig();
 
-  const orchestrator = new SEOPipelineOrchestrator(pipelineConfig);
-  orchestrator.execute().catch(error => {
-    logger.fatal('💥 Pipeline failed:', error as Error);
-    process.exit(1);
-  });
+    if (siteId || allSites) {
+      // 站群模式：每个站点使用自己的领域、关键词、输出目录和部署平台
+      const runner = new MultiSiteRunner(pipelineConfig, process.env.CLUSTER_CONFIG_PATH);
+      const run = siteId ? runner.runSite(siteId) : runner.runAll();
+
+      run.then(report => {
+        if (report.sites.some(site => site.status === 'failed')) {
+          process.exit(1);
+        }
+      }).catch(error => {
+        logger.fatal('💥 Multi-site run failed:', error as Error);
+        process.exit(1);
+      });
+    } else {
+      const orchestrator = new SEOPipelineOrchestrator(pipelineConfig, { resumeRunId });
+      orchestrator.execute().catch(error => {
+        logger.fatal('💥 Pipeline failed:', error as Error);
+        process.exit(1);
+      });
+    }
+  }
 }
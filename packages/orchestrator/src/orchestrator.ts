@@ -0,0 +1,469 @@
+/**
+ * SEO Pipeline Orchestrator
+ * 流水线编排器 - 按阶段依赖图执行、记录检查点并生成报告
+ */
+
+import { writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { createLogger } from '@seo-spy/logger';
+import { AppError, classifyError, withRetry } from '@seo-spy/error-handler';
+import type { BudgetSummary } from '@seo-spy/llm-budget';
+import type { DuplicatePair } from '@seo-spy/article-gen';
+import { CheckpointStore, type RunCheckpoint } from './checkpoint.js';
+import { DEFAULT_STAGE_GRAPH, resolveFailurePolicy, runStageGraph, validateStageGraph } from './graph.js';
+import { RunHistory } from './history.js';
+import { StageRegistry, isStageSkip } from './registry.js';
+import { createDefaultRegistry } from './stages.js';
+import type { FailurePolicy, PipelineConfig, PipelineState, StageNode } from './types.js';
+
+const logger = createLogger('orchestrator');
+
+export interface CompensationResult {
+  stage: string;
+  status: 'success' | 'failed' | 'skipped';
+  error?: string;
+}
+
+/**
+ * 阶段失败后实际触发的策略
+ */
+export interface PolicyReport {
+  policy: FailurePolicy;
+  attempts: number;
+  // recovered: 重试后成功；continued: 记录失败后继续；aborted: 停止流水线
+  outcome: 'recovered' | 'continued' | 'aborted';
+  compensations?: CompensationResult[];
+}
+
+export interface PipelineResult {
+  stage: string;
+  status: 'success' | 'failed' | 'skipped';
+  duration: number;
+  output?: any;
+  error?: string;
+  // 跳过原因（阶段图中禁用、上游失败、配置关闭或缺少前置条件）
+  reason?: string;
+  resumed?: boolean;
+  // 在阶段图或配置中关闭
+  disabled?: boolean;
+  // 出错时触发的失败策略
+  policy?: PolicyReport;
+}
+
+/**
+ * 运行的最终状态：有阶段失败并中止为 failed；有阶段按 continue 策略失败或因上游失败、缺少前置条件被跳过为 partial（续跑恢复和配置中关闭的阶段不算）
+ */
+export type RunStatus = 'success' | 'partial' | 'failed';
+
+export interface PipelineReport {
+  // 检查点的运行 ID，续跑时不变
+  runId: string;
+  // 运行历史中的报告 ID：首次运行与 runId 相同，第 n 次续跑为 <runId>-resume-<n>
+  reportId: string;
+  // 第几次执行该运行（1 为首次运行）
+  attempt: number;
+  status: RunStatus;
+  checkpoint: string;
+  timestamp: string;
+  totalDuration: number;
+  stages: PipelineResult[];
+  // 本次运行生成的文章数
+  articles: number;
+  // 因预算用尽未生成文章的关键词
+  unprocessedKeywords?: string[];
+  // 未通过质量门禁而被隔离的文章
+  quarantinedArticles?: string[];
+  // 生成时发现的近似重复
+  duplicates?: DuplicatePair[];
+  budget?: BudgetSummary;
+  config: PipelineConfig;
+}
+
+export interface OrchestratorOptions {
+  // 从指定运行 ID 的检查点继续执行
+  resumeRunId?: string;
+  checkpointDir?: string;
+  // 自定义阶段注册表，默认包含所有内置阶段
+  registry?: StageRegistry;
+}
+
+export class SEOPipelineOrchestrator {
+  private config: PipelineConfig;
+  private results: PipelineResult[] = [];
+  private state: PipelineState = {};
+  private registry: StageRegistry;
+  private checkpoints: CheckpointStore<PipelineConfig>;
+  private checkpoint: RunCheckpoint<PipelineConfig>;
+  private resuming: boolean;
+  private graph: StageNode[] = [];
+  // 按 continue 策略失败的阶段，以及因此被跳过的下游阶段
+  private unavailable: Set<string> = new Set();
+
+  constructor(config: PipelineConfig, options: OrchestratorOptions = {}) {
+    this.checkpoints = new CheckpointStore<PipelineConfig>(options.checkpointDir);
+    this.registry = options.registry || createDefaultRegistry();
+    this.resuming = Boolean(options.resumeRunId);
+
+    if (options.resumeRunId) {
+      // 续跑时沿用首次运行的配置，保证各阶段产出一致
+      this.checkpoint = this.checkpoints.load(options.resumeRunId);
+      this.checkpoint.resumedAt = [...(this.checkpoint.resumedAt || []), new Date().toISOString()];
+      this.checkpoints.save(this.checkpoint);
+      this.config = this.checkpoint.config;
+    } else {
+      this.config = config;
+      this.checkpoint = this.checkpoints.create(CheckpointStore.createRunId(), config);
+    }
+  }
+
+  get runId(): string {
+    return this.checkpoint.runId;
+  }
+
+  /**
+   * 各阶段产出的共享数据（执行结束后可用于汇总）
+   */
+  getState(): PipelineState {
+    return this.state;
+  }
+
+  async execute(): Promise<PipelineReport> {
+    logger.info('🚀 Starting SEO Pipeline Execution...', { runId: this.runId, resumed: this.resuming });
+
+    const startTime = Date.now();
+    const graph = this.config.stages || DEFAULT_STAGE_GRAPH;
+    this.graph = graph;
+
+    // 先校验整张图，避免执行到一半才发现配置错误
+    validateStageGraph(graph);
+    for (const node of graph) {
+      await this.registry.resolve(node.use || node.id);
+
+      for (const id of resolveFailurePolicy(node).compensate || []) {
+        const target = graph.find(n => n.id === id)!;
+        const definition = await this.registry.resolve(target.use || target.id);
+        if (!definition.compensate) {
+          throw new Error(`Stage "${node.id}" compensates "${id}", but ${definition.name} has no compensate hook`);
+        }
+      }
+    }
+
+    logger.info(`🗺️  Stage graph: ${graph.length} stages`, {
+      stages: graph.map(node => node.dependsOn?.length ? `${node.id} <- ${node.dependsOn.join('+')}` : node.id)
+    });
+
+    // 失败时同样生成报告，再把错误抛给调用方
+    let failure: unknown;
+    try {
+      await runStageGraph(graph, node => this.runStage(node));
+    } catch (error) {
+      failure = error;
+    }
+
+    // 上游失败后未运行的阶段
+    for (const node of graph) {
+      if (!this.results.some(result => result.stage === node.id)) {
+        this.results.push({ stage: node.id, status: 'skipped', duration: 0, reason: 'not run after upstream failure' });
+      }
+    }
+
+    const report = this.generateReport(Date.now() - startTime);
+
+    if (failure !== undefined) {
+      throw failure;
+    }
+
+    return report;
+  }
+
+  private async runStage(node: StageNode): Promise<void> {
+    const stageName = node.id;
+    const definition = await this.registry.resolve(node.use || node.id);
+
+    if (this.resuming && this.checkpoints.isCompleted(this.checkpoint, stageName)) {
+      const previous = this.checkpoint.stages[stageName];
+      definition.restore?.(this.state, previous.output);
+
+      this.results.push({
+        stage: stageName,
+        status: 'skipped',
+        duration: 0,
+        output: previous.output,
+        resumed: true
+      });
+
+      logger.info(`⏭️  ${stageName} already completed at ${previous.finishedAt}, skipping...`);
+      return;
+    }
+
+    if (node.enabled === false) {
+      this.results.push({ stage: stageName, status: 'skipped', duration: 0, reason: 'disabled in stage graph', disabled: true });
+      logger.info(`⏭️  ${stageName} disabled in stage graph, skipping...`);
+      return;
+    }
+
+    const failedDeps = (node.dependsOn || []).filter(dep => this.unavailable.has(dep));
+    if (failedDeps.length > 0) {
+      this.unavailable.add(stageName);
+      this.results.push({ stage: stageName, status: 'skipped', duration: 0, reason: `upstream ${failedDeps.join(', ')} failed` });
+      logger.info(`⏭️  ${stageName} depends on failed ${failedDeps.join(', ')}, skipping...`);
+      return;
+    }
+
+    const failure = resolveFailurePolicy(node);
+    const startTime = Date.now();
+    const startedAt = new Date(startTime).toISOString();
+    let attempts = 0;
+    logger.info(`📋 Stage: ${stageName.toUpperCase()}`);
+
+    const attempt = () => {
+      attempts++;
+      return definition.run({
+        runId: this.runId,
+        stageId: stageName,
+        config: this.config,
+        state: this.state,
+        options: node.options || {},
+        logger: logger.child(stageName)
+      });
+    };
+
+    try {
+      const output = failure.policy === 'retry'
+        ? await withRetry(() => attempt().catch(error => { throw toRetryable(error); }), {
+          maxAttempts: failure.maxAttempts,
+          initialDelay: failure.initialDelay,
+          maxDelay: failure.maxDelay,
+          backoffFactor: failure.backoffFactor,
+          onRetry: (count, error) => logger.warn(`🔁 ${stageName} attempt ${count} failed: ${error.message}`)
+        })
+        : await attempt();
+      const duration = Date.now() - startTime;
+
+      // 阶段因配置关闭或缺少前置条件没有执行；不计入 unavailable，下游阶段照常运行
+      if (isStageSkip(output)) {
+        this.results.push({
+          stage: stageName,
+          status: 'skipped',
+          duration,
+          reason: output.reason,
+          ...(output.disabled ? { disabled: true } : {})
+        });
+        this.checkpoints.recordStage(this.checkpoint, {
+          stage: stageName,
+          status: 'skipped',
+          startedAt,
+          finishedAt: new Date().toISOString(),
+          duration
+        });
+        logger.info(`⏭️  ${stageName} skipped: ${output.reason}`);
+        return;
+      }
+
+      this.results.push({
+        stage: stageName,
+        status: 'success',
+        duration,
+        output,
+        ...(attempts > 1 ? { policy: { policy: failure.policy, attempts, outcome: 'recovered' as const } } : {})
+      });
+
+      this.checkpoints.recordStage(this.checkpoint, {
+        stage: stageName,
+        status: 'success',
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        duration,
+        output
+      });
+
+      logger.info(`✅ ${stageName} completed successfully`);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const continues = failure.policy === 'continue' || (failure.policy === 'retry' && failure.exhausted === 'continue');
+
+      logger.error(`❌ ${stageName} failed:`, error as Error);
+
+      const compensations = failure.compensate?.length
+        ? await this.compensate(stageName, failure.compensate)
+        : undefined;
+
+      this.results.push({
+        stage: stageName,
+        status: 'failed',
+        duration,
+        error: message,
+        policy: {
+          policy: failure.policy,
+          attempts,
+          outcome: continues ? 'continued' : 'aborted',
+          ...(compensations ? { compensations } : {})
+        }
+      });
+
+      this.checkpoints.recordStage(this.checkpoint, {
+        stage: stageName,
+        status: 'failed',
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        duration,
+        error: message
+      });
+
+      if (continues) {
+        this.unavailable.add(stageName);
+        logger.warn(`⚠️  ${stageName} failed with policy "${failure.policy}", continuing with stages that don't depend on it`);
+        return;
+      }
+
+      logger.info(`💡 Resume this run with: --resume ${this.runId}`);
+      throw error; // 失败则停止整个流程
+    }
+  }
+
+  /**
+   * 按配置顺序调用上游阶段的补偿钩子；补偿失败只记录，不掩盖原始错误
+   */
+  private async compensate(failedStage: string, stageIds: string[]): Promise<CompensationResult[]> {
+    const results: CompensationResult[] = [];
+
+    for (const id of stageIds) {
+      const node = this.graph.find(n => n.id === id)!;
+      const definition = await this.registry.resolve(node.use || node.id);
+      const previous = this.results.find(result => result.stage === id);
+
+      // 只补偿本次（或续跑前）真正执行成功的阶段
+      if (!previous || (previous.status !== 'success' && !previous.resumed)) {
+        results.push({ stage: id, status: 'skipped', error: 'stage did not complete' });
+        continue;
+      }
+
+      logger.warn(`↩️  Compensating ${id} after ${failedStage} failed...`);
+
+      try {
+        await definition.compensate!({
+          runId: this.runId,
+          stageId: id,
+          config: this.config,
+          state: this.state,
+          options: node.options || {},
+          logger: logger.child(id)
+        }, previous.output);
+        results.push({ stage: id, status: 'success' });
+        logger.info(`✅ ${id} compensated`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        results.push({ stage: id, status: 'failed', error: message });
+        logger.error(`❌ Compensation of ${id} failed:`, error as Error);
+      }
+    }
+
+    return results;
+  }
+
+  private generateReport(totalDuration: number): PipelineReport {
+    logger.info('📊 PIPELINE EXECUTION REPORT');
+
+    const durationMinutes = Math.floor(totalDuration / 60000);
+    const durationSeconds = Math.floor((totalDuration % 60000) / 1000);
+
+    logger.info(`🆔 Run ID: ${this.runId}`);
+    logger.info(`⏱️  Total Duration: ${durationMinutes}m ${durationSeconds}s`);
+
+    this.results.forEach(result => {
+      const icon = result.status === 'success' ? '✅' : result.status === 'skipped' ? '⏭️ ' : '❌';
+      const duration = (result.duration / 1000).toFixed(2);
+      const note = result.resumed ? ' (from checkpoint)' : result.reason ? ` (${result.reason})` : '';
+      logger.info(`${icon} ${result.stage.padEnd(25)} ${duration}s${note}`);
+
+      if (result.error) {
+        logger.error(`   Error: ${result.error}`);
+      }
+
+      if (result.policy) {
+        logger.info(`   ${describePolicy(result.policy)}`);
+        result.policy.compensations?.forEach(compensation => {
+          const mark = compensation.status === 'success' ? '✅' : compensation.status === 'skipped' ? '⏭️ ' : '❌';
+          logger.info(`   ↩️  ${mark} compensate ${compensation.stage}${compensation.error ? `: ${compensation.error}` : ''}`);
+        });
+      }
+    });
+
+    if (this.state.budget) {
+      const { runUsd, dayUsd, monthUsd } = this.state.budget;
+      logger.info(`💰 LLM spend: $${runUsd.toFixed(4)} this run, $${dayUsd.toFixed(2)} today, $${monthUsd.toFixed(2)} this month`);
+    }
+
+    if (this.state.unprocessedKeywords?.length) {
+      logger.warn(`💸 Unprocessed keywords (budget reached): ${this.state.unprocessedKeywords.join(', ')}`);
+    }
+
+    const failed = this.results.filter(result => result.status === 'failed' && result.policy?.outcome !== 'continued');
+    const continued = this.results.filter(result => result.policy?.outcome === 'continued');
+    // 续跑恢复和配置中关闭的阶段不影响运行状态
+    const skipped = this.results.filter(result => result.status === 'skipped' && !result.resumed && !result.disabled);
+    const status: RunStatus = failed.length > 0
+      ? 'failed'
+      : continued.length > 0 || skipped.length > 0 ? 'partial' : 'success';
+
+    // 每次续跑单独保存一份报告，不覆盖之前失败的那次
+    const attempt = this.resuming ? (this.checkpoint.resumedAt?.length || 0) + 1 : 1;
+    const reportData: PipelineReport = {
+      runId: this.runId,
+      reportId: attempt > 1 ? `${this.runId}-resume-${attempt - 1}` : this.runId,
+      attempt,
+      status,
+      checkpoint: this.checkpoints.getPath(this.runId),
+      timestamp: new Date().toISOString(),
+      totalDuration,
+      stages: this.results,
+      articles: this.state.articles?.length || 0,
+      unprocessedKeywords: this.state.unprocessedKeywords,
+      quarantinedArticles: this.state.quarantinedArticles,
+      duplicates: this.state.duplicates,
+      budget: this.state.budget,
+      config: this.config
+    };
+
+    // 每次运行单独保存并索引；pipeline-report.json 始终指向最近一次运行
+    const historyPath = new RunHistory().save(reportData);
+    const reportPath = join(process.cwd(), 'data/logs/pipeline-report.json');
+    mkdirSync(join(process.cwd(), 'data/logs'), { recursive: true });
+    writeFileSync(reportPath, JSON.stringify(reportData, null, 2));
+    logger.info(`📝 Report saved to: ${historyPath}`);
+
+    if (status === 'success') {
+      logger.info('🎉 Pipeline completed successfully!');
+    } else if (status === 'partial') {
+      if (continued.length > 0) {
+        logger.warn(`⚠️  Pipeline completed with ${continued.length} failed stage(s): ${continued.map(result => result.stage).join(', ')}`);
+      }
+      if (skipped.length > 0) {
+        logger.warn(`⚠️  Pipeline completed with ${skipped.length} skipped stage(s): ${skipped.map(result => result.stage).join(', ')}`);
+      }
+    } else {
+      logger.error(`❌ Pipeline failed at: ${failed.map(result => result.stage).join(', ')}`);
+    }
+
+    return reportData;
+  }
+}
+
+/**
+ * 报告中的策略说明，如 "retry → recovered after 2 attempt(s)"
+ */
+export function describePolicy(policy: PolicyReport): string {
+  return `🛡️  ${policy.policy} → ${policy.outcome} after ${policy.attempts} attempt(s)`;
+}
+
+/**
+ * 阶段配置了 retry 即视为可重试；显式标记为不可重试的 AppError（如预算用尽）除外
+ */
+function toRetryable(error: unknown): unknown {
+  if (error instanceof AppError || !(error instanceof Error)) {
+    return error;
+  }
+
+  return new AppError(error.message, { category: classifyError(error), retryable: true, cause: error });
+}
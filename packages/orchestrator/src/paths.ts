@@ -0,0 +1,21 @@
+/**
+ * Pipeline Paths
+ * 流水线数据目录 - 多站点运行时每个站点使用独立的数据目录
+ */
+
+import type { PipelineConfig } from './types.js';
+
+/**
+ * 关键词、文章等中间数据的根目录（相对项目根目录）
+ */
+export function getDataDir(config: PipelineConfig): string {
+  return config.site ? `./data/sites/${config.site.id}` : './data';
+}
+
+export function getArticlesDir(config: PipelineConfig): string {
+  return `${getDataDir(config)}/articles`;
+}
+
+export function getTopicPlanPath(config: PipelineConfig): string {
+  return config.articles.topics?.path || `${getDataDir(config)}/topic-plan.json`;
+}
@@ -0,0 +1,137 @@
+/**
+ * Pipeline Planner
+ * 流水线预演 - 按阶段图调用各阶段的 plan 路径，汇总将要发起的调用、文件变更和预估成本
+ */
+
+import { writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { createLogger } from '@seo-spy/logger';
+import { BudgetTracker, type BudgetScope } from '@seo-spy/llm-budget';
+import { DryRunRecorder, type CostSummary, type PlannedCall } from './dry-run.js';
+import { DEFAULT_STAGE_GRAPH, validateStageGraph } from './graph.js';
+import { StageRegistry } from './registry.js';
+import { createDefaultRegistry } from './stages.js';
+import type { PipelineConfig, PipelineSite, PipelineState } from './types.js';
+
+const logger = createLogger('orchestrator').child('plan');
+
+export interface StagePlanResult {
+  stage: string;
+  status: 'planned' | 'disabled' | 'unsupported';
+  summary: string;
+  details?: unknown;
+}
+
+export interface PipelinePlan {
+  timestamp: string;
+  site?: PipelineSite;
+  stages: StagePlanResult[];
+  calls: PlannedCall[];
+  cost: CostSummary;
+  // 已配置预算的剩余额度
+  budgetRemaining?: Partial<Record<BudgetScope, number>>;
+}
+
+export class PipelinePlanner {
+  private config: PipelineConfig;
+  private registry: StageRegistry;
+
+  constructor(config: PipelineConfig, registry: StageRegistry = createDefaultRegistry()) {
+    this.config = config;
+    this.registry = registry;
+  }
+
+  async plan(): Promise<PipelinePlan> {
+    const graph = this.config.stages || DEFAULT_STAGE_GRAPH;
+    const order = validateStageGraph(graph);
+    const recorder = new DryRunRecorder(this.config.budget?.pricing);
+    const state: PipelineState = {};
+    const stages: StagePlanResult[] = [];
+    const runId = `plan-${Date.now()}`;
+
+    // 按拓扑顺序依次预演，上游阶段写入 state 的预览数据供下游使用
+    for (const id of order) {
+      const node = graph.find(n => n.id === id)!;
+      const definition = await this.registry.resolve(node.use || node.id);
+
+      if (node.enabled === false) {
+        stages.push({ stage: id, status: 'disabled', summary: 'disabled in stage graph' });
+        continue;
+      }
+
+      if (!definition.plan) {
+        stages.push({ stage: id, status: 'unsupported', summary: 'no dry-run path, would run without preview' });
+        continue;
+      }
+
+      const result = await definition.plan({
+        runId,
+        stageId: id,
+        config: this.config,
+        state,
+        options: node.options || {},
+        logger: logger.child(id),
+        recorder
+      });
+
+      stages.push({ stage: id, status: 'planned', ...result });
+    }
+
+    const plan: PipelinePlan = {
+      timestamp: new Date().toISOString(),
+      site: this.config.site,
+      stages,
+      calls: recorder.getCalls(),
+      cost: recorder.getCost(),
+      budgetRemaining: this.config.budget
+        ? new BudgetTracker({ limits: this.config.budget, runId, siteId: this.config.site?.id }).summary().remaining
+        : undefined
+    };
+
+    this.printPlan(plan);
+    return plan;
+  }
+
+  private printPlan(plan: PipelinePlan): void {
+    logger.info(`🧪 PIPELINE PLAN${plan.site ? ` — ${plan.site.name} (${plan.site.domain})` : ''} (dry run, nothing executed)`);
+
+    plan.stages.forEach(stage => {
+      const icon = stage.status === 'planned' ? '📋' : stage.status === 'disabled' ? '⏭️ ' : '❔';
+      logger.info(`${icon} ${stage.stage.padEnd(25)} ${stage.summary}`);
+    });
+
+    // 按服务和动作汇总外部调用
+    const grouped = new Map<string, number>();
+    plan.calls.forEach(call => {
+      const key = `${call.service.padEnd(22)} ${call.action}`;
+      grouped.set(key, (grouped.get(key) || 0) + 1);
+    });
+
+    logger.info(`🌐 External calls that would be made: ${plan.calls.length}`);
+    grouped.forEach((count, key) => logger.info(`   ${key} ×${count}`));
+
+    const { cost } = plan;
+    logger.info(
+      `💰 Estimated cost: $${cost.usd.toFixed(2)} (input ${cost.inputTokens} tokens, output ≤ ${cost.outputTokens} tokens)`
+    );
+    if (cost.unpriced.length > 0) {
+      logger.warn(`⚠️  No pricing for: ${cost.unpriced.join(', ')}`);
+    }
+
+    for (const [scope, remaining] of Object.entries(plan.budgetRemaining || {})) {
+      const icon = cost.usd > remaining ? '💸' : '✅';
+      logger.info(`${icon} ${scope} budget remaining: $${remaining.toFixed(2)}`);
+    }
+  }
+}
+
+/**
+ * 保存预演结果到 data/logs/pipeline-plan.json
+ */
+export function savePlans(plans: PipelinePlan[]): string {
+  const planPath = join(process.cwd(), 'data/logs/pipeline-plan.json');
+  mkdirSync(join(process.cwd(), 'data/logs'), { recursive: true });
+  writeFileSync(planPath, JSON.stringify({ plans }, null, 2));
+
+  return planPath;
+}
@@ -0,0 +1,127 @@
+/**
+ * Article Refresh
+ * 文章更新 - 挑选过时或排名下降的文章，交给内容提供方改写，原地覆盖并保存旧版本
+ */
+
+import { writeFileSync } from 'fs';
+import { validateFeatureConfig } from '@seo-spy/config';
+import { createLogger } from '@seo-spy/logger';
+import { BudgetTracker, isBudgetError } from '@seo-spy/llm-budget';
+import {
+  applyRefresh,
+  backupArticle,
+  buildRefreshBrief,
+  listArticleVersions,
+  loadRankingHistory,
+  recordRevision,
+  revertArticle,
+  selectRefreshCandidates,
+  type ArticleVersion,
+  type RefreshCandidate,
+  type RefreshCriteria
+} from '@seo-spy/article-gen';
+import { getArticlesDir, getDataDir } from './paths.js';
+import { PROVIDER_FEATURES, createContentGenerator } from './stages.js';
+import type { PipelineConfig } from './types.js';
+
+const logger = createLogger('orchestrator').child('refresh');
+
+// rank-monitor 默认的排名历史文件
+const DEFAULT_RANKING_HISTORY = 'data/rankings/ranking-history.json';
+
+export interface RefreshReport {
+  candidates: RefreshCandidate[];
+  refreshed: { slug: string; reasons: string[]; version: string }[];
+  failed: { slug: string; error: string }[];
+  // 因预算用尽未处理的文章
+  skipped: string[];
+}
+
+export class ArticleRefresher {
+  private config: PipelineConfig;
+
+  constructor(config: PipelineConfig) {
+    this.config = config;
+  }
+
+  select(criteria: RefreshCriteria): RefreshCandidate[] {
+    const rankings = criteria.rankDrop !== undefined
+      ? loadRankingHistory(this.config.refresh?.rankingHistoryPath || DEFAULT_RANKING_HISTORY)
+      : undefined;
+
+    return selectRefreshCandidates(getArticlesDir(this.config), criteria, rankings);
+  }
+
+  /**
+   * 逐篇改写：先保存当前版本，改写失败（如丢失站内链接）时原文不变
+   */
+  async refresh(criteria: RefreshCriteria, brief?: string): Promise<RefreshReport> {
+    const candidates = this.select(criteria);
+    const report: RefreshReport = { candidates, refreshed: [], failed: [], skipped: [] };
+
+    const runId = `refresh-${Date.now()}`;
+    const budget = this.config.budget
+      ? new BudgetTracker({ limits: this.config.budget, runId, siteId: this.config.site?.id })
+      : undefined;
+    const generator = createContentGenerator(this.config, budget, runId);
+
+    const missing = generator
+      .getProviderNames(candidates.map(candidate => ({ keyword: candidate.keyword, volume: 0, difficulty: 0 })))
+      .flatMap(provider => validateFeatureConfig(PROVIDER_FEATURES[provider]).missing);
+    if (missing.length > 0) {
+      throw new Error(`Article refresh configuration missing: ${[...new Set(missing)].join(', ')}`);
+    }
+
+    for (const [index, candidate] of candidates.entries()) {
+      const provider = generator.getProvider(candidate.keyword);
+      logger.info(`🔄 Refreshing ${candidate.slug} with ${provider.name} (${candidate.reasons.join('; ')})`);
+
+      try {
+        const refreshed = await provider.refresh({
+          keyword: candidate.keyword,
+          title: candidate.title,
+          markdown: candidate.content,
+          brief: buildRefreshBrief(candidate, brief)
+        });
+        const output = applyRefresh(candidate, refreshed);
+
+        const version = backupArticle(this.getVersionsDir(), candidate.slug, candidate.filePath);
+        writeFileSync(candidate.filePath, output);
+        recordRevision(getDataDir(this.config), candidate.slug, {
+          kind: 'refresh',
+          at: new Date().toISOString(),
+          provider: provider.name,
+          model: provider.model,
+          runId,
+          note: `previous version ${version.id}`
+        });
+
+        report.refreshed.push({ slug: candidate.slug, reasons: candidate.reasons, version: version.id });
+        logger.info(`✅ Refreshed ${candidate.slug} (previous version ${version.id})`);
+      } catch (error) {
+        if (isBudgetError(error)) {
+          report.skipped = candidates.slice(index).map(c => c.slug);
+          logger.warn(`💸 ${error.message}, ${report.skipped.length} article(s) not refreshed`);
+          break;
+        }
+
+        report.failed.push({ slug: candidate.slug, error: (error as Error).message });
+        logger.error(`❌ Failed to refresh ${candidate.slug}`, error as Error);
+      }
+    }
+
+    return report;
+  }
+
+  versions(slug: string): ArticleVersion[] {
+    return listArticleVersions(this.getVersionsDir(), slug);
+  }
+
+  revert(slug: string, versionId?: string): ArticleVersion {
+    return revertArticle(this.getVersionsDir(), getArticlesDir(this.config), slug, versionId);
+  }
+
+  private getVersionsDir(): string {
+    return `${getDataDir(this.config)}/versions`;
+  }
+}
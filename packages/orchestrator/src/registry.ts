@@ -0,0 +1,116 @@
+/**
+ * Stage Registry
+ * 阶段注册表 - 任意 @seo-spy/* 包都可以注册为流水线阶段
+ */
+
+import type { Logger } from '@seo-spy/logger';
+import type { DryRunRecorder } from './dry-run.js';
+import type { PipelineConfig, PipelineState } from './types.js';
+
+export interface StageContext {
+  runId: string;
+  // 当前节点在流水线图中的 ID
+  stageId: string;
+  config: PipelineConfig;
+  state: PipelineState;
+  // 节点级别的自定义参数（pipeline.config.json 中的 options）
+  options: Record<string, unknown>;
+  logger: Logger;
+}
+
+export interface PlanContext extends StageContext {
+  recorder: DryRunRecorder;
+}
+
+/**
+ * 阶段在 plan 模式下的预览结果
+ */
+export interface StagePlan {
+  // 一行摘要，用于终端输出
+  summary: string;
+  details?: unknown;
+}
+
+/**
+ * 阶段没有执行时的返回值，运行报告中记为 skipped；缺少前置条件时运行状态为 partial
+ */
+export interface StageSkip {
+  skipped: true;
+  reason: string;
+  // 在配置中主动关闭，不影响运行状态
+  disabled?: boolean;
+}
+
+export function skipStage(reason: string): StageSkip {
+  return { skipped: true, reason };
+}
+
+export function disableStage(reason: string): StageSkip {
+  return { skipped: true, reason, disabled: true };
+}
+
+export function isStageSkip(output: unknown): output is StageSkip {
+  return typeof output === 'object' && output !== null && (output as StageSkip).skipped === true;
+}
+
+export interface StageDefinition {
+  name: string;
+  description: string;
+  run: (context: StageContext) => Promise<unknown>;
+  // plan 模式：只记录将要发生的调用和变更，不产生副作用；未实现的阶段在 plan 中不会执行
+  plan?: (context: PlanContext) => Promise<StagePlan>;
+  // 续跑时把检查点中的产出恢复到流水线状态
+  restore?: (state: PipelineState, output: unknown) => void;
+  // 补偿：撤销本阶段已产生的副作用（如回滚部署），由下游阶段的 onFailure.compensate 触发
+  compensate?: (context: StageContext, output: unknown) => Promise<void>;
+}
+
+export class StageRegistry {
+  private stages: Map<string, StageDefinition> = new Map();
+
+  register(definition: StageDefinition): void {
+    if (this.stages.has(definition.name)) {
+      throw new Error(`Stage already registered: ${definition.name}`);
+    }
+
+    this.stages.set(definition.name, definition);
+  }
+
+  has(name: string): boolean {
+    return this.stages.has(name);
+  }
+
+  get(name: string): StageDefinition {
+    const definition = this.stages.get(name);
+    if (!definition) {
+      throw new Error(`Unknown stage: ${name}. Registered stages: ${this.list().map(s => s.name).join(', ')}`);
+    }
+
+    return definition;
+  }
+
+  list(): StageDefinition[] {
+    return [...this.stages.values()];
+  }
+
+  /**
+   * 解析阶段：已注册的直接返回；@seo-spy/* 包则动态加载其导出的 pipelineStage
+   */
+  async resolve(name: string): Promise<StageDefinition> {
+    if (this.stages.has(name)) {
+      return this.get(name);
+    }
+
+    if (!name.startsWith('@seo-spy/')) {
+      return this.get(name);
+    }
+
+    const module = await import(name) as { pipelineStage?: StageDefinition };
+    if (!module.pipelineStage) {
+      throw new Error(`Package ${name} does not export a pipelineStage`);
+    }
+
+    this.stages.set(name, { ...module.pipelineStage, name });
+    return this.get(name);
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Pipeline Scheduler
+ * 定时调度器 - 按 cron 表达式常驻运行流水线或单个阶段，支持任务锁、停机补跑和持久化历史
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, openSync, closeSync, unlinkSync } from 'fs';
+import { dirname, join } from 'path';
+import { createLogger } from '@seo-spy/logger';
+import { CronExpression } from './cron.js';
+import { SEOPipelineOrchestrator } from './orchestrator.js';
+import { createDefaultRegistry } from './stages.js';
+import { MultiSiteRunner } from './sites.js';
+import type { PipelineConfig, ScheduledJob } from './types.js';
+
+const logger = createLogger('orchestrator').child('scheduler');
+
+// 历史记录最多保留的条数
+const MAX_HISTORY = 1000;
+
+export interface JobRun {
+  jobId: string;
+  // 本次运行对应的 cron 时间点
+  scheduledFor: string;
+  startedAt: string;
+  finishedAt: string;
+  duration: number;
+  status: 'success' | 'failed' | 'skipped';
+  catchUp?: boolean;
+  runId?: string;
+  error?: string;
+}
+
+export interface SchedulerOptions {
+  historyPath?: string;
+  lockDir?: string;
+}
+
+/**
+ * 调度历史（data/logs/scheduler-history.json）
+ */
+export class JobHistory {
+  private path: string;
+
+  constructor(path: string = join(process.cwd(), 'data/logs/scheduler-history.json')) {
+    this.path = path;
+  }
+
+  list(jobId?: string, limit = 50): JobRun[] {
+    const runs = this.load().filter(run => !jobId || run.jobId === jobId);
+    return runs.slice(-limit).reverse();
+  }
+
+  /**
+   * 某个任务最近一次被调度的时间点，用于计算停机期间错过的运行
+   */
+  lastScheduled(jobId: string): Date | undefined {
+    const last = this.load().filter(run => run.jobId === jobId).pop();
+    return last ? new Date(last.scheduledFor) : undefined;
+  }
+
+  append(run: JobRun): void {
+    const runs = [...this.load(), run].slice(-MAX_HISTORY);
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify({ runs }, null, 2));
+  }
+
+  private load(): JobRun[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+
+    return JSON.parse(readFileSync(this.path, 'utf-8')).runs || [];
+  }
+}
+
+/**
+ * 基于文件的任务锁，防止同一任务（或共享锁名的任务）并发运行，对多个调度进程同样有效
+ */
+class JobLock {
+  constructor(private lockDir: string) {}
+
+  acquire(name: string, jobId: string): boolean {
+    const path = this.getPath(name);
+    mkdirSync(this.lockDir, { recursive: true });
+
+    try {
+      const fd = openSync(path, 'wx');
+      writeFileSync(fd, JSON.stringify({ pid: process.pid, jobId, acquiredAt: new Date().toISOString() }));
+      closeSync(fd);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    // 持有锁的进程已退出时清理残留锁文件后重试
+    if (this.isStale(path)) {
+      logger.warn(`🔓 Removing stale lock: ${name}`);
+      unlinkSync(path);
+      return this.acquire(name, jobId);
+    }
+
+    return false;
+  }
+
+  release(name: string): void {
+    const path = this.getPath(name);
+    if (existsSync(path)) {
+      unlinkSync(path);
+    }
+  }
+
+  private isStale(path: string): boolean {
+    try {
+      const { pid } = JSON.parse(readFileSync(path, 'utf-8'));
+      process.kill(pid, 0);
+      return false;
+    } catch {
+      return true;
+    }
+  }
+
+  private getPath(name: string): string {
+    return join(this.lockDir, `${name}.lock`);
+  }
+}
+
+export class PipelineScheduler {
+  private config: PipelineConfig;
+  private jobs: { job: ScheduledJob; cron: CronExpression }[] = [];
+  private history: JobHistory;
+  private locks: JobLock;
+  private running = new Set<Promise<void>>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(config: PipelineConfig, options: SchedulerOptions = {}) {
+    this.config = config;
+    this.history = new JobHistory(options.historyPath);
+    this.locks = new JobLock(options.lockDir || join(process.cwd(), 'data/locks'));
+  }
+
+  /**
+   * 校验任务、补跑错过的运行，然后每分钟检查一次到期任务
+   */
+  async start(): Promise<void> {
+    const jobs = (this.config.schedule?.jobs || []).filter(job => job.enabled !== false);
+    if (jobs.length === 0) {
+      throw new Error('No scheduled jobs configured, add schedule.jobs to pipeline.config.json');
+    }
+
+    const registry = createDefaultRegistry();
+    const ids = new Set<string>();
+
+    for (const job of jobs) {
+      if (ids.has(job.id)) {
+        throw new Error(`Duplicate scheduled job id: ${job.id}`);
+      }
+      ids.add(job.id);
+
+      if (job.run !== 'pipeline') {
+        await registry.resolve(job.run);
+      }
+
+      this.jobs.push({ job, cron: new CronExpression(job.cron) });
+    }
+
+    logger.info(`⏰ Scheduler started with ${this.jobs.length} job(s)`);
+    const now = new Date();
+    this.jobs.forEach(({ job, cron }) => {
+      logger.info(`   ${job.id.padEnd(20)} ${cron.source.padEnd(16)} next: ${cron.next(now).toISOString()}`);
+    });
+
+    this.catchUp(now);
+    this.scheduleTick();
+  }
+
+  /**
+   * 停止调度并等待正在运行的任务结束
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.running.size > 0) {
+      logger.info(`⏳ Waiting for ${this.running.size} running job(s) to finish...`);
+      await Promise.allSettled([...this.running]);
+    }
+
+    logger.info('👋 Scheduler stopped');
+  }
+
+  /**
+   * 停机期间错过的多次运行合并为一次补跑
+   */
+  private catchUp(now: Date): void {
+    for (const { job, cron } of this.jobs) {
+      if (job.catchUp === false) continue;
+
+      const last = this.history.lastScheduled(job.id);
+      if (!last) continue;
+
+      let missed: Date | undefined;
+      for (let next = cron.next(last); next <= now; next = cron.next(next)) {
+        missed = next;
+      }
+
+      if (missed) {
+        logger.info(`🔁 ${job.id} missed run at ${missed.toISOString()}, catching up...`);
+        this.trigger(job, missed, true);
+      }
+    }
+  }
+
+  private scheduleTick(): void {
+    // 对齐到下一整分钟
+    const now = new Date();
+    const delay = 60000 - (now.getSeconds() * 1000 + now.getMilliseconds());
+
+    this.timer = setTimeout(() => {
+      const minute = new Date();
+      minute.setSeconds(0, 0);
+
+      for (const { job, cron } of this.jobs) {
+        if (cron.matches(minute)) {
+          this.trigger(job, minute, false);
+        }
+      }
+
+      this.scheduleTick();
+    }, delay);
+  }
+
+  private trigger(job: ScheduledJob, scheduledFor: Date, catchUp: boolean): void {
+    const run = this.runJob(job, scheduledFor, catchUp).finally(() => {
+      this.running.delete(run);
+    });
+    this.running.add(run);
+  }
+
+  private async runJob(job: ScheduledJob, scheduledFor: Date, catchUp: boolean): Promise<void> {
+    const lockName = job.lock || job.id;
+    const startTime = Date.now();
+    const entry: JobRun = {
+      jobId: job.id,
+      scheduledFor: scheduledFor.toISOString(),
+      startedAt: new Date(startTime).toISOString(),
+      finishedAt: '',
+      duration: 0,
+      status: 'success',
+      ...(catchUp ? { catchUp } : {})
+    };
+
+    if (!this.locks.acquire(lockName, job.id)) {
+      logger.warn(`🔒 ${job.id} skipped, lock "${lockName}" is held by another run`);
+      this.history.append({
+        ...entry,
+        finishedAt: entry.startedAt,
+        status: 'skipped',
+        error: `lock "${lockName}" held`
+      });
+      return;
+    }
+
+    logger.info(`▶️  Running job: ${job.id} (${job.run})`);
+
+    try {
+      entry.runId = await this.execute(job);
+      logger.info(`✅ Job ${job.id} finished`);
+    } catch (error) {
+      entry.status = 'failed';
+      entry.error = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`❌ Job ${job.id} failed`, error as Error);
+    } finally {
+      this.locks.release(lockName);
+    }
+
+    entry.finishedAt = new Date().toISOString();
+    entry.duration = Date.now() - startTime;
+    this.history.append(entry);
+  }
+
+  /**
+   * 执行任务，返回流水线运行 ID（站群模式下无单一运行 ID）
+   */
+  private async execute(job: ScheduledJob): Promise<string | undefined> {
+    if (job.run === 'pipeline' && (job.site || job.allSites)) {
+      const runner = new MultiSiteRunner(this.config);
+      const report = job.site ? await runner.runSite(job.site) : await runner.runAll();
+
+      const failed = report.sites.filter(site => site.status === 'failed');
+      if (failed.length > 0) {
+        throw new Error(`${failed.length} site(s) failed: ${failed.map(site => site.siteId).join(', ')}`);
+      }
+      return;
+    }
+
+    // 单阶段任务复用编排器，以获得检查点和报告
+    const config: PipelineConfig = job.run === 'pipeline'
+      ? this.config
+      : { ...this.config, stages: [{ id: job.run, options: job.options }] };
+
+    const orchestrator = new SEOPipelineOrchestrator(config);
+    await orchestrator.execute();
+    return orchestrator.runId;
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Multi-Site Runner
+ * 站群运行 - 按 data/cluster-config.json 中的站点逐个执行流水线
+ */
+
+import { writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { createLogger } from '@seo-spy/logger';
+import { SiteClusterManager, type SiteConfig } from '@seo-spy/cluster-manager';
+import { SEOPipelineOrchestrator } from './orchestrator.js';
+import { PipelinePlanner, type PipelinePlan } from './planner.js';
+import type { PipelineConfig } from './types.js';
+
+const logger = createLogger('orchestrator').child('sites');
+
+export interface SiteRunResult {
+  siteId: string;
+  name: string;
+  domain: string;
+  platform: SiteConfig['platform'];
+  runId?: string;
+  status: 'success' | 'failed' | 'skipped';
+  articles: number;
+  // 因预算用尽未生成文章的关键词
+  unprocessedKeywords: string[];
+  duration: number;
+  error?: string;
+}
+
+export interface MultiSiteReport {
+  timestamp: string;
+  totalDuration: number;
+  sites: SiteRunResult[];
+}
+
+/**
+ * 用站点自身的领域、关键词和平台覆盖基础流水线配置
+ */
+export function createSiteConfig(base: PipelineConfig, site: SiteConfig): PipelineConfig {
+  const outputDir = `./sites/${site.id}/dist`;
+  // 站点单独指定提供方时不沿用基础配置的模型
+  const articles = site.contentProvider
+    ? { ...base.articles, provider: site.contentProvider, model: site.contentModel }
+    : base.articles;
+
+  return {
+    ...base,
+    site: {
+      id: site.id,
+      name: site.name,
+      domain: site.domain,
+      niche: site.niche,
+      keywords: site.keywords
+    },
+    keywords: {
+      ...base.keywords,
+      niches: [site.niche, ...site.keywords]
+    },
+    articles,
+    build: {
+      ...base.build,
+      outputDir
+    },
+    deploy: {
+      ...base.deploy,
+      platform: site.platform,
+      sites: [{ name: site.id, domain: site.domain, sourceDir: outputDir }]
+    }
+  };
+}
+
+export class MultiSiteRunner {
+  private cluster: SiteClusterManager;
+
+  constructor(private baseConfig: PipelineConfig, clusterConfigPath?: string) {
+    this.cluster = new SiteClusterManager(clusterConfigPath);
+  }
+
+  /**
+   * 运行单个站点
+   */
+  async runSite(siteId: string): Promise<MultiSiteReport> {
+    return this.run([this.getSite(siteId)]);
+  }
+
+  /**
+   * 运行所有站点（非 active 的站点跳过）
+   */
+  async runAll(): Promise<MultiSiteReport> {
+    const sites = this.cluster.getAllSites();
+    if (sites.length === 0) {
+      throw new Error('No sites in cluster config, add one with the cluster-manager first');
+    }
+
+    return this.run(sites);
+  }
+
+  /**
+   * 预演单个或全部 active 站点，不执行任何阶段
+   */
+  async plan(siteId?: string): Promise<PipelinePlan[]> {
+    const sites = siteId
+      ? [this.getSite(siteId)]
+      : this.cluster.getAllSites().filter(site => site.status === 'active');
+    const plans: PipelinePlan[] = [];
+
+    for (const site of sites) {
+      plans.push(await new PipelinePlanner(createSiteConfig(this.baseConfig, site)).plan());
+    }
+
+    return plans;
+  }
+
+  private getSite(siteId: string): SiteConfig {
+    const site = this.cluster.getSite(siteId);
+    if (!site) {
+      const known = this.cluster.getAllSites().map(s => s.id).join(', ') || '(none)';
+      throw new Error(`Site not found in cluster config: ${siteId}. Known sites: ${known}`);
+    }
+
+    return site;
+  }
+
+  private async run(sites: SiteConfig[]): Promise<MultiSiteReport> {
+    const startTime = Date.now();
+    const results: SiteRunResult[] = [];
+
+    // 各站点共用 site-template 的 posts 集合，必须顺序执行
+    for (const site of sites) {
+      results.push(await this.runOne(site));
+    }
+
+    return this.generateReport(results, Date.now() - startTime);
+  }
+
+  private async runOne(site: SiteConfig): Promise<SiteRunResult> {
+    const result: SiteRunResult = {
+      siteId: site.id,
+      name: site.name,
+      domain: site.domain,
+      platform: site.platform,
+      status: 'skipped',
+      articles: 0,
+      unprocessedKeywords: [],
+      duration: 0
+    };
+
+    if (site.status !== 'active') {
+      logger.info(`⏭️  ${site.name} is ${site.status}, skipping...`);
+      return result;
+    }
+
+    logger.info(`🌐 Site: ${site.name} (${site.domain}) → ${site.platform}`);
+
+    const startTime = Date.now();
+    const orchestrator = new SEOPipelineOrchestrator(createSiteConfig(this.baseConfig, site));
+    result.runId = orchestrator.runId;
+
+    try {
+      await orchestrator.execute();
+      result.status = 'success';
+
+      if (this.baseConfig.deploy.enabled) {
+        this.cluster.markDeployed(site.id);
+      }
+    } catch (error) {
+      result.status = 'failed';
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`❌ ${site.name} failed, continuing with next site`, error as Error);
+    }
+
+    result.articles = orchestrator.getState().articles?.length || 0;
+    result.unprocessedKeywords = orchestrator.getState().unprocessedKeywords || [];
+    result.duration = Date.now() - startTime;
+
+    return result;
+  }
+
+  private generateReport(results: SiteRunResult[], totalDuration: number): MultiSiteReport {
+    logger.info('📊 MULTI-SITE REPORT');
+
+    results.forEach(result => {
+      const icon = result.status === 'success' ? '✅' : result.status === 'skipped' ? '⏭️ ' : '❌';
+      const duration = (result.duration / 1000).toFixed(2);
+      logger.info(
+        `${icon} ${result.name.padEnd(25)} ${result.platform.padEnd(10)} ${String(result.articles).padStart(3)} articles  ${duration}s`
+      );
+
+      if (result.unprocessedKeywords.length > 0) {
+        logger.warn(`   💸 ${result.unprocessedKeywords.length} keyword(s) unprocessed (budget reached)`);
+      }
+
+      if (result.error) {
+        logger.error(`   Error: ${result.error} (resume with --resume ${result.runId})`);
+      }
+    });
+
+    const report: MultiSiteReport = {
+      timestamp: new Date().toISOString(),
+      totalDuration,
+      sites: results
+    };
+
+    const reportPath = join(process.cwd(), 'data/logs/multi-site-report.json');
+    mkdirSync(join(process.cwd(), 'data/logs'), { recursive: true });
+    writeFileSync(reportPath, JSON.stringify(report, null, 2));
+    logger.info(`📝 Report saved to: ${reportPath}`);
+
+    return report;
+  }
+}
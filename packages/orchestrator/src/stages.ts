@@ -0,0 +1,1005 @@
+/**
+ * Built-in Pipeline Stages
+ * 内置流水线阶段 - 把各个 @seo-spy/* 模块包装成可编排的阶段
+ */
+
+import { execFileSync } from 'child_process';
+import { readFileSync, existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { loadConfig, validateFeatureConfig } from '@seo-spy/config';
+import { KeywordSpy, type KeywordData } from '@seo-spy/keyword-spy';
+import {
+  applyStructuredData,
+  describeStructuredData,
+  formatDiagnostic,
+  quarantineCodeFailure,
+  recordRevision,
+  saveArticle,
+  verifyArticleCode,
+  writeArticleIndex,
+  type CodeCheckOptions,
+  type GeneratedArticle,
+  type KeywordInput,
+  type StructuredDataOptions
+} from '@seo-spy/article-gen';
+import { ContentGenerator, type ProviderName } from '@seo-spy/content-provider';
+import { DeploymentManager, type DeploymentResult } from '@seo-spy/deploy';
+import { NetlifyDeployer } from '@seo-spy/netlify-deploy';
+import { BatchSitemapSubmitter, type SubmitResult } from '@seo-spy/sitemap-submitter';
+import { InternalLinker, type LinkConfig } from '@seo-spy/internal-linker';
+import { ImageGenerator, type ImageGenConfig, type GeneratedImage } from '@seo-spy/image-gen';
+import { SEOAuditor, type AuditResult } from '@seo-spy/seo-audit';
+import { SocialPublisher, type PublisherConfig, type PublishResult } from '@seo-spy/social-publisher';
+import { RankMonitor, type MonitorConfig } from '@seo-spy/rank-monitor';
+import { ReportGenerator, type ReportConfig } from '@seo-spy/auto-reports';
+import { BudgetTracker, estimateTokens } from '@seo-spy/llm-budget';
+import { PromptLibrary } from '@seo-spy/prompts';
+import type { TopicPlan } from '@seo-spy/topic-planner';
+import { DataSyncManager, type SyncConfig } from '@seo-spy/data-sync';
+import { ContentSync, type ContentSyncReport } from './content-sync.js';
+import { getArticlesDir, getDataDir, getTopicPlanPath } from './paths.js';
+import { generatePlannedArticles, loadOrCreateTopicPlan, runGeneration, selectPlannedKeywords } from './topics.js';
+import {
+  StageRegistry,
+  disableStage,
+  skipStage,
+  type PlanContext,
+  type StageContext,
+  type StageDefinition,
+  type StagePlan,
+  type StageSkip
+} from './registry.js';
+import type { PipelineConfig, PipelineState } from './types.js';
+
+const keywordScraping: StageDefinition = {
+  name: 'keyword-scraping',
+  description: 'Scrape and rank keywords for the configured niches (keyword-spy)',
+  async run({ config, state, logger }: StageContext): Promise<KeywordData[] | StageSkip> {
+    if (!config.keywords.enabled) {
+      return disableStage('keyword scraping disabled in config');
+    }
+
+    logger.info(`🔍 Scraping keywords for niches: ${config.keywords.niches.join(', ')}`);
+    logger.info(`📊 Target: ${config.keywords.maxKeywords} keywords`);
+
+    const spy = new KeywordSpy({
+      sources: config.keywords.sources || [{ type: 'google', enabled: true }],
+      outputDir: getDataDir(config),
+      maxKeywords: config.keywords.maxKeywords,
+      minVolume: config.keywords.minVolume ?? 100,
+      niches: config.keywords.niches
+    });
+
+    state.keywords = await spy.execute();
+    return state.keywords;
+  },
+  async plan({ config, state, stageId, recorder, logger }: PlanContext): Promise<StagePlan> {
+    if (!config.keywords.enabled) {
+      return { summary: 'disabled in config' };
+    }
+
+    const sources = (config.keywords.sources || [{ type: 'google', enabled: true }]).filter(source => source.enabled);
+    for (const source of sources) {
+      for (const niche of config.keywords.niches) {
+        recorder.record({ stage: stageId, service: `${source.type}-suggest`, action: 'search suggestions', target: niche });
+      }
+    }
+
+    // 无法预知新的爬取结果，用上一次保存的关键词预览
+    state.keywords = loadLatestKeywords(getDataDir(config), logger);
+
+    return {
+      summary: `${config.keywords.niches.length} niches via ${sources.map(source => source.type).join(', ')}, up to ${config.keywords.maxKeywords} keywords`,
+      details: { niches: config.keywords.niches, previewFromLastScrape: state.keywords.length }
+    };
+  },
+  restore(state, output) {
+    state.keywords = (output as KeywordData[] | undefined)?.map(keyword => ({
+      ...keyword,
+      scrapedAt: new Date(keyword.scrapedAt)
+    }));
+  }
+};
+
+const articleGeneration: StageDefinition = {
+  name: 'article-generation',
+  description: 'Generate SEO articles for the top keywords with the configured content provider (content-provider)',
+  async run({ runId, config, state, logger }: StageContext): Promise<GeneratedArticle[] | StageSkip> {
+    if (!config.articles.enabled) {
+      return disableStage('article generation disabled in config');
+    }
+
+    const { keywords, topicPlan } = selectArticleKeywords(config, state, logger);
+    if (keywords.length === 0) {
+      throw new Error(topicPlan
+        ? `No pending articles in the topic plan ${getTopicPlanPath(config)}`
+        : 'No keywords available for article generation');
+    }
+
+    const budget = config.budget
+      ? new BudgetTracker({ limits: config.budget, runId, siteId: config.site?.id })
+      : undefined;
+    const generator = createContentGenerator(config, budget, runId);
+    const providers = generator.getProviderNames(keywords);
+
+    // 只校验本次会用到的提供方
+    const missing = providers.flatMap(provider => validateFeatureConfig(PROVIDER_FEATURES[provider]).missing);
+    if (missing.length > 0) {
+      throw new Error(`Article generation configuration missing: ${[...new Set(missing)].join(', ')}`);
+    }
+
+    logger.info(`🤖 Generating ${keywords.length} articles with ${providers.join(', ')}`);
+    logger.info(`📝 Min words per article: ${config.articles.minWords}`);
+
+    const result = topicPlan
+      ? await generatePlannedArticles(generator, config, topicPlan, keywords, logger)
+      : await runGeneration(generator, keywords);
+    state.articles = result.articles;
+
+    if (budget) {
+      state.budget = budget.summary();
+      logger.info(`💰 LLM spend this run: $${state.budget.runUsd.toFixed(4)} (${state.budget.requests} requests)`);
+    }
+
+    if (result.quarantined.length > 0) {
+      state.quarantinedArticles = result.quarantined.map(article => article.slug);
+      logger.warn(`🚧 ${result.quarantined.length} article(s) below quality score ${config.articles.quality?.minScore} quarantined`, {
+        articles: state.quarantinedArticles
+      });
+    }
+
+    if (result.duplicates.length > 0) {
+      state.duplicates = result.duplicates;
+      logger.warn(`♊ ${result.duplicates.length} near-duplicate article(s) detected`, {
+        pairs: result.duplicates.map(pair => `${pair.a} ↔ ${pair.b} (${pair.similarity})`)
+      });
+    }
+
+    // 预算用尽时不视为失败，后续阶段继续处理已生成的文章
+    if (result.unprocessed.length > 0) {
+      state.unprocessedKeywords = result.unprocessed.map(keyword => keyword.keyword);
+      logger.warn(`💸 Budget reached, ${result.unprocessed.length} keyword(s) left unprocessed`, {
+        keywords: state.unprocessedKeywords
+      });
+    }
+
+    return state.articles;
+  },
+  async plan({ config, state, stageId, recorder, logger }: PlanContext): Promise<StagePlan> {
+    if (!config.articles.enabled) {
+      return { summary: 'disabled in config' };
+    }
+
+    const { keywords, topicPlan } = selectArticleKeywords(config, state, logger, false);
+    // 还没有爬取结果时，用领域名代替关键词估算成本
+    const estimated = keywords.length > 0
+      ? keywords
+      : Array.from({ length: config.articles.count }, (_, i) => ({
+        keyword: config.keywords.niches[i % config.keywords.niches.length],
+        volume: 0,
+        difficulty: 0
+      }));
+    const generator = createContentGenerator(config);
+    const models = new Set<string>();
+
+    for (const keyword of estimated) {
+      for (const request of generator.getProvider(keyword.keyword).buildRequests(keyword)) {
+        const inputTokens = estimateTokens(request.system) + estimateTokens(request.prompt);
+
+        recorder.record({
+          stage: stageId,
+          service: request.service,
+          action: request.action,
+          target: request.model,
+          details: { keyword: keyword.keyword, inputTokens, maxOutputTokens: request.maxTokens }
+        });
+        // 输出按 max_tokens 计，作为成本上限
+        recorder.recordTokens(stageId, request.model, inputTokens, request.maxTokens);
+        models.add(`${request.provider}/${request.model}`);
+      }
+    }
+
+    state.plannedArticles = estimated.map(keyword => keyword.keyword);
+    const missing = generator.getProviderNames(estimated)
+      .flatMap(provider => validateFeatureConfig(PROVIDER_FEATURES[provider]).missing);
+
+    return {
+      summary: `${estimated.length} articles with ${[...models].join(', ')}, ${config.articles.minWords}+ words each` +
+        `${topicPlan ? ` from ${topicPlan.clusters.length} topic cluster(s)` : ''}` +
+        `${keywords.length > 0 ? '' : ' (keywords known after scraping)'}` +
+        `${missing.length > 0 ? ` (missing ${[...new Set(missing)].join(', ')})` : ''}`,
+      details: { models: [...models], keywords: state.plannedArticles }
+    };
+  },
+  restore(state, output) {
+    state.articles = output as GeneratedArticle[] | undefined;
+  }
+};
+
+/**
+ * code-verification 阶段的 options
+ */
+interface CodeVerificationOptions extends CodeCheckOptions {
+  // 让生成文章的内容提供方修正出错的代码块
+  fix?: boolean;
+  // block（默认）：隔离到 data/quarantine，不进入站点；warn：只记录
+  onFailure?: 'block' | 'warn';
+}
+
+interface CodeVerificationOutput {
+  articles: GeneratedArticle[];
+  blocked: string[];
+}
+
+const codeVerification: StageDefinition = {
+  name: 'code-verification',
+  description: 'Type-check the TypeScript / JavaScript code blocks of generated articles and block broken ones from publishing',
+  async run({ runId, config, state, options, logger }: StageContext): Promise<CodeVerificationOutput | StageSkip> {
+    if (!state.articles || state.articles.length === 0) {
+      return skipStage('no generated articles to verify');
+    }
+
+    const { fix, onFailure = 'block', ...checkOptions } = options as CodeVerificationOptions;
+    const outputDir = getDataDir(config);
+    const budget = fix && config.budget
+      ? new BudgetTracker({ limits: config.budget, runId, siteId: config.site?.id })
+      : undefined;
+    const generator = fix ? createContentGenerator(config, budget, runId) : undefined;
+
+    logger.info(`🧪 Checking code blocks in ${state.articles.length} article(s) (${checkOptions.mode || 'types'})`);
+
+    const verified: GeneratedArticle[] = [];
+    const blocked: string[] = [];
+
+    for (const original of state.articles) {
+      const { article, report } = await verifyArticleCode(original, {
+        ...checkOptions,
+        fix: generator && (request => generator.getProvider(original.metadata.keyword).refresh(request))
+      });
+
+      if (!report.passed) {
+        const errors = report.snippets.flatMap(snippet => snippet.diagnostics.map(diagnostic => formatDiagnostic(snippet, diagnostic)));
+        logger.warn(`❌ ${article.slug}: ${report.failed}/${report.snippets.length} code block(s) failed`, { errors });
+
+        if (onFailure === 'block') {
+          quarantineCodeFailure(outputDir, article, report);
+          blocked.push(article.slug);
+          continue;
+        }
+      }
+
+      if (article.content !== original.content) {
+        const provider = generator!.getProvider(article.metadata.keyword);
+        const fixed = report.snippets.filter(snippet => snippet.fixed).length;
+
+        saveArticle(outputDir, article);
+        recordRevision(outputDir, article.slug, {
+          kind: 'code-fix',
+          at: new Date().toISOString(),
+          provider: provider.name,
+          model: provider.model,
+          runId,
+          note: `${fixed} code block(s) fixed`
+        });
+      }
+      verified.push(article);
+    }
+
+    state.articles = verified;
+    writeArticleIndex(outputDir, verified);
+
+    if (budget) {
+      state.budget = budget.summary();
+    }
+
+    if (blocked.length > 0) {
+      state.quarantinedArticles = [...(state.quarantinedArticles || []), ...blocked];
+      logger.warn(`🚧 ${blocked.length} article(s) with broken code blocked from publishing`, { articles: blocked });
+    }
+
+    return { articles: verified, blocked };
+  },
+  async plan({ state, options }: PlanContext): Promise<StagePlan> {
+    const { mode = 'types', fix } = options as CodeVerificationOptions;
+    const count = state.plannedArticles?.length || 0;
+
+    return {
+      summary: `check code blocks in ${count} article(s) (${mode})${fix ? ', ask the provider to fix broken blocks' : ''}`
+    };
+  },
+  restore(state, output) {
+    const result = output as CodeVerificationOutput | undefined;
+    if (result) {
+      state.articles = result.articles;
+      state.quarantinedArticles = [...(state.quarantinedArticles || []), ...result.blocked];
+    }
+  }
+};
+
+const structuredData: StageDefinition = {
+  name: 'structured-data',
+  description: 'Extract FAQ pairs, step-by-step instructions and primary code samples of generated articles into frontmatter',
+  async run({ config, state, options, logger }: StageContext): Promise<GeneratedArticle[] | StageSkip> {
+    if (!state.articles || state.articles.length === 0) {
+      return skipStage('no generated articles to extract structured data from');
+    }
+
+    const outputDir = getDataDir(config);
+    const counts = { faq: 0, howTo: 0, codeSamples: 0 };
+
+    state.articles = state.articles.map(original => {
+      const article = applyStructuredData(original, options as StructuredDataOptions);
+      const { faq, howTo, codeSamples } = article.frontmatter;
+
+      counts.faq += faq ? 1 : 0;
+      counts.howTo += howTo ? 1 : 0;
+      counts.codeSamples += codeSamples ? 1 : 0;
+      logger.debug(`🧩 ${article.slug}: ${describeStructuredData({ faq, howTo, codeSamples })}`);
+
+      if (JSON.stringify(article.frontmatter) !== JSON.stringify(original.frontmatter)) {
+        saveArticle(outputDir, article);
+      }
+      return article;
+    });
+
+    writeArticleIndex(outputDir, state.articles);
+    logger.info(
+      `🧩 Structured data in ${state.articles.length} article(s): ` +
+      `${counts.faq} with FAQ, ${counts.howTo} with HowTo, ${counts.codeSamples} with code samples`
+    );
+
+    return state.articles;
+  },
+  async plan({ state }: PlanContext): Promise<StagePlan> {
+    const count = state.plannedArticles?.length || 0;
+    return { summary: `extract FAQ / HowTo / code samples from ${count} article(s) into frontmatter` };
+  },
+  restore(state, output) {
+    if (output) {
+      state.articles = output as GeneratedArticle[];
+    }
+  }
+};
+
+const siteBuild: StageDefinition = {
+  name: 'site-build',
+  description: 'Sync articles into the Astro content collection and build the site',
+  async run({ config, logger }: StageContext): Promise<unknown> {
+    if (!config.build.enabled) {
+      return disableStage('site build disabled in config');
+    }
+
+    logger.info(`🏗️  Building site...`);
+
+    // 同步生成的文章到 Astro 内容目录
+    const sync = syncArticlesToSite(getArticlesDir(config), logger);
+
+    // 调用 Astro 构建；多站点模式下每个站点输出到独立目录
+    if (config.site) {
+      const outDir = join(process.cwd(), config.build.outputDir);
+      // 参数不经过 shell，站点目录中的空格或特殊字符不会被解释
+      execFileSync('pnpm', ['-F', '@seo-spy/site-template', 'build', '--outDir', outDir], {
+        stdio: 'inherit',
+        env: { ...process.env, SITE_URL: `https://${config.site.domain}` }
+      });
+    } else {
+      execFileSync('pnpm', ['-F', '@seo-spy/site-template', 'build'], { stdio: 'inherit' });
+    }
+
+    return { outputDir: config.build.outputDir, sync };
+  },
+  async plan({ config, state }: PlanContext): Promise<StagePlan> {
+    if (!config.build.enabled) {
+      return { summary: 'disabled in config' };
+    }
+
+    const sync = createContentSync(getArticlesDir(config)).plan();
+    const pending = state.plannedArticles?.length || 0;
+
+    return {
+      summary: `content: +${sync.added.length} ~${sync.updated.length} -${sync.removed.length}` +
+        `${pending ? ` (+${pending} new after generation)` : ''}` +
+        `${sync.invalid.length ? `, ${sync.invalid.length} invalid` : ''}` +
+        `${sync.collisions.length ? `, ${sync.collisions.length} collisions` : ''} → ${config.build.outputDir}`,
+      details: { outputDir: config.build.outputDir, sync }
+    };
+  }
+};
+
+const deployment: StageDefinition = {
+  name: 'deployment',
+  description: 'Deploy the configured sites to Cloudflare Pages, Vercel or Netlify (deploy, netlify-deploy)',
+  async run({ config, state, logger }: StageContext): Promise<DeploymentResult[] | StageSkip> {
+    if (!config.deploy.enabled) {
+      return disableStage('deployment disabled in config');
+    }
+
+    const platform = config.deploy.platform;
+    const sites = config.deploy.sites || [];
+
+    if (sites.length === 0) {
+      return skipStage('no deploy sites configured');
+    }
+
+    const validation = validateFeatureConfig(`${platform}-deploy`);
+    if (!validation.valid) {
+      throw new Error(`Deployment configuration missing: ${validation.missing.join(', ')}`);
+    }
+
+    logger.info(`🚀 Deploying ${sites.length} site(s) to ${platform}...`);
+
+    const env = loadConfig();
+
+    if (platform === 'netlify') {
+      state.deployments = [];
+
+      for (const site of sites) {
+        const deployer = new NetlifyDeployer({
+          personalAccessToken: env.NETLIFY_TOKEN || '',
+          siteName: site.name,
+          teamId: env.NETLIFY_TEAM_ID
+        });
+        const result = await deployer.deploy(join(process.cwd(), site.sourceDir));
+
+        state.deployments.push({
+          site: site.name,
+          status: result.success ? 'success' : 'failed',
+          url: result.deployUrl || result.siteUrl,
+          error: result.error
+        });
+      }
+    } else {
+      state.deployments = await createDeploymentManager(config).deployAll();
+    }
+
+    const failed = state.deployments.filter(result => result.status === 'failed');
+    if (failed.length > 0) {
+      throw new Error(`Deployment failed for: ${failed.map(result => result.site).join(', ')}`);
+    }
+
+    return state.deployments;
+  },
+  async plan({ config, stageId, recorder }: PlanContext): Promise<StagePlan> {
+    if (!config.deploy.enabled) {
+      return { summary: 'disabled in config' };
+    }
+
+    const platform = config.deploy.platform;
+    const sites = config.deploy.sites || [];
+    const validation = validateFeatureConfig(`${platform}-deploy`);
+
+    for (const site of sites) {
+      recorder.record({
+        stage: stageId,
+        service: platform,
+        action: 'deploy',
+        target: site.domain,
+        details: { site: site.name, sourceDir: site.sourceDir }
+      });
+    }
+
+    return {
+      summary: `${sites.map(site => site.domain).join(', ') || 'no sites'} → ${platform}` +
+        `${validation.valid ? '' : ` (missing ${validation.missing.join(', ')})`}`,
+      details: { platform, sites, missingEnv: validation.missing }
+    };
+  },
+  restore(state, output) {
+    state.deployments = output as DeploymentResult[] | undefined;
+  },
+  async compensate({ config, logger }: StageContext, output: unknown): Promise<void> {
+    const deployments = (output as DeploymentResult[] | undefined) || [];
+
+    if (config.deploy.platform === 'netlify') {
+      throw new Error('Rollback is not supported for Netlify deployments');
+    }
+
+    const manager = createDeploymentManager(config);
+
+    // 逐个站点切回上一次成功的生产部署
+    for (const site of config.deploy.sites || []) {
+      const deployed = deployments.find(result => result.site === site.name && result.status === 'success');
+      if (!deployed) {
+        continue;
+      }
+      if (!deployed.deployId) {
+        throw new Error(`Cannot roll back ${site.name}: deployment ID was not recorded`);
+      }
+
+      const result = await manager.rollbackSite(site, deployed.deployId);
+      logger.info(`↩️  ${site.name} rolled back to deployment ${result.deployId}`);
+    }
+  }
+};
+
+function createDeploymentManager(config: PipelineConfig): DeploymentManager {
+  const env = loadConfig();
+  const platform = config.deploy.platform === 'vercel' ? 'vercel' : 'cloudflare';
+
+  return new DeploymentManager({
+    platform,
+    apiToken: (platform === 'cloudflare' ? env.CLOUDFLARE_API_TOKEN : env.VERCEL_TOKEN) || '',
+    accountSlug: env.CLOUDFLARE_ACCOUNT_ID,
+    teamId: env.VERCEL_TEAM_ID,
+    sites: config.deploy.sites || []
+  });
+}
+
+const sitemapSubmission: StageDefinition = {
+  name: 'sitemap-submission',
+  description: 'Submit sitemaps of deployed sites to Google Search Console (sitemap-submitter)',
+  async run({ config, state, logger }: StageContext): Promise<SubmitResult[] | StageSkip> {
+    if (!config.sitemap.enabled) {
+      return disableStage('sitemap submission disabled in config');
+    }
+
+    if (!config.sitemap.autoSubmit) {
+      return disableStage('sitemap auto-submit disabled');
+    }
+
+    const googleKeyPath = loadConfig().GOOGLE_SERVICE_ACCOUNT_KEY_PATH;
+    if (!googleKeyPath) {
+      return skipStage('GOOGLE_SERVICE_ACCOUNT_KEY_PATH not set');
+    }
+
+    // 只提交本次成功部署的站点；未部署时提交所有已配置站点
+    const deployed = new Set(
+      (state.deployments || []).filter(result => result.status === 'success').map(result => result.site)
+    );
+    const sites = (config.deploy.sites || []).filter(site => deployed.size === 0 || deployed.has(site.name));
+    const sitemapPath = config.sitemap.path || '/sitemap-index.xml';
+
+    logger.info(`📤 Submitting ${sites.length} sitemap(s) to search engines...`);
+
+    const submitter = new BatchSitemapSubmitter(sites.map(site => ({
+      siteUrl: `https://${site.domain}/`,
+      sitemapUrl: `https://${site.domain}${sitemapPath}`,
+      credentialsPath: googleKeyPath
+    })));
+
+    state.sitemaps = await submitter.submitAll();
+    return state.sitemaps;
+  },
+  async plan({ config, stageId, recorder }: PlanContext): Promise<StagePlan> {
+    if (!config.sitemap.enabled || !config.sitemap.autoSubmit) {
+      return { summary: config.sitemap.enabled ? 'auto-submit disabled' : 'disabled in config' };
+    }
+
+    const sitemapPath = config.sitemap.path || '/sitemap-index.xml';
+    const sites = config.deploy.sites || [];
+
+    for (const site of sites) {
+      recorder.record({
+        stage: stageId,
+        service: 'google-search-console',
+        action: 'sitemaps.submit',
+        target: `https://${site.domain}${sitemapPath}`
+      });
+    }
+
+    return { summary: `${sites.length} sitemap(s) to Google Search Console` };
+  },
+  restore(state, output) {
+    state.sitemaps = output as SubmitResult[] | undefined;
+  }
+};
+
+const internalLinking: StageDefinition = {
+  name: 'internal-linking',
+  description: 'Insert internal links between generated articles (internal-linker)',
+  async run({ config, options, logger }: StageContext): Promise<unknown> {
+    const linkConfig: LinkConfig = {
+      contentDir: getArticlesDir(config),
+      maxLinksPerArticle: 5,
+      minWordDistance: 100,
+      sameDomainOnly: true,
+      excludeKeywords: ['的', '是', '在', '和', '与', '或', '了'],
+      ...(options as Partial<LinkConfig>)
+    };
+
+    if (!existsSync(join(process.cwd(), linkConfig.contentDir))) {
+      return skipStage(`content directory not found: ${linkConfig.contentDir}`);
+    }
+
+    const linker = new InternalLinker(linkConfig);
+    await linker.loadArticles();
+    await linker.generateInternalLinks();
+
+    return { contentDir: linkConfig.contentDir };
+  },
+  async plan({ config, state }: PlanContext): Promise<StagePlan> {
+    const contentDir = getArticlesDir(config);
+    const existing = countMarkdownFiles(contentDir);
+    const pending = state.plannedArticles?.length || 0;
+
+    return { summary: `would rewrite links in up to ${existing + pending} article(s) in ${contentDir}` };
+  }
+};
+
+const imageGeneration: StageDefinition = {
+  name: 'image-generation',
+  description: 'Generate cover images for articles with DALL-E (image-gen)',
+  async run({ config, state, options, logger }: StageContext): Promise<GeneratedImage[] | StageSkip> {
+    const validation = validateFeatureConfig('image-gen');
+    if (!validation.valid) {
+      return skipStage(`image generation configuration missing: ${validation.missing.join(', ')}`);
+    }
+
+    const generator = new ImageGenerator({
+      apiKey: loadConfig().OPENAI_API_KEY || '',
+      contentDir: getArticlesDir(config),
+      outputDir: './packages/site-template/public',
+      model: 'dall-e-3',
+      size: '1024x1024',
+      style: 'vivid',
+      quality: 'standard',
+      ...(options as Partial<ImageGenConfig>)
+    });
+
+    state.images = await generator.generateAllImages();
+    return state.images;
+  },
+  async plan({ config, state, options, stageId, recorder }: PlanContext): Promise<StagePlan> {
+    const imageConfig = { model: 'dall-e-3', quality: 'standard', ...(options as Partial<ImageGenConfig>) };
+    // 图片阶段会为内容目录中的每篇文章生成配图
+    const count = countMarkdownFiles(getArticlesDir(config)) + (state.plannedArticles?.length || 0);
+    const validation = validateFeatureConfig('image-gen');
+
+    for (let i = 0; i < count; i++) {
+      recorder.record({ stage: stageId, service: 'openai', action: 'images.generate', target: imageConfig.model });
+      // 缺少 OPENAI_API_KEY 时阶段会跳过，不计入预估花费
+      if (validation.valid) {
+        recorder.recordImage(stageId, imageConfig.model, imageConfig.quality);
+      }
+    }
+
+    return {
+      summary: `${count} image(s) with ${imageConfig.model}${validation.valid ? '' : ' (would skip: OPENAI_API_KEY missing)'}`
+    };
+  },
+  restore(state, output) {
+    state.images = output as GeneratedImage[] | undefined;
+  }
+};
+
+const seoAudit: StageDefinition = {
+  name: 'seo-audit',
+  description: 'Run an SEO health check on every configured site (seo-audit)',
+  async run({ config, state, options }: StageContext): Promise<AuditResult[]> {
+    const urls = (config.deploy.sites || []).map(site => `https://${site.domain}/`);
+
+    state.audits = await new SEOAuditor().auditBatch(urls);
+
+    // options.minScore 作为部署后检查：任一站点总分低于阈值则阶段失败
+    const minScore = options.minScore as number | undefined;
+    const failing = minScore === undefined ? [] : state.audits.filter(audit => audit.score.overall < minScore);
+    if (failing.length > 0) {
+      throw new Error(
+        `SEO score below ${minScore}: ${failing.map(audit => `${audit.url} (${audit.score.overall})`).join(', ')}`
+      );
+    }
+
+    return state.audits;
+  },
+  async plan({ config, stageId, recorder }: PlanContext): Promise<StagePlan> {
+    const urls = (config.deploy.sites || []).map(site => `https://${site.domain}/`);
+    urls.forEach(url => recorder.record({ stage: stageId, service: 'http', action: 'GET', target: url }));
+
+    return { summary: `audit ${urls.length} site(s)` };
+  },
+  restore(state, output) {
+    state.audits = output as AuditResult[] | undefined;
+  }
+};
+
+const socialPublishing: StageDefinition = {
+  name: 'social-publishing',
+  description: 'Announce newly generated articles on social media (social-publisher)',
+  async run({ config, state, options, logger }: StageContext): Promise<PublishResult[] | StageSkip> {
+    const domain = config.deploy.sites?.[0]?.domain;
+    if (!domain || !state.articles?.length) {
+      return skipStage('no deployed site or new articles to publish');
+    }
+
+    const publisher = new SocialPublisher(options as PublisherConfig);
+    const results = await publisher.publishBatch(state.articles.map(article => ({
+      title: article.title,
+      url: `https://${domain}/articles/${article.slug}/`,
+      excerpt: article.frontmatter.description,
+      tags: article.frontmatter.tags
+    })));
+
+    state.socialPosts = [...results.values()].flat();
+    return state.socialPosts;
+  },
+  async plan({ config, state, options, stageId, recorder }: PlanContext): Promise<StagePlan> {
+    const platforms = Object.entries(options as PublisherConfig)
+      .filter(([, platform]) => platform?.enabled)
+      .map(([name]) => name);
+    const articles = state.plannedArticles || [];
+
+    if (!config.deploy.sites?.length || articles.length === 0) {
+      return { summary: 'no deployed site or new articles, would skip' };
+    }
+
+    for (const platform of platforms) {
+      articles.forEach(keyword => {
+        recorder.record({ stage: stageId, service: platform, action: 'post', target: keyword });
+      });
+    }
+
+    return { summary: `${articles.length} post(s) on ${platforms.join(', ') || 'no enabled platforms'}` };
+  },
+  restore(state, output) {
+    state.socialPosts = output as PublishResult[] | undefined;
+  }
+};
+
+const rankMonitoring: StageDefinition = {
+  name: 'rank-monitoring',
+  description: 'Check search rankings for the article keywords (rank-monitor)',
+  async run({ config, state, options, logger }: StageContext): Promise<unknown> {
+    const domain = config.deploy.sites?.[0]?.domain;
+    const keywords = state.articles?.map(article => article.metadata.keyword) || config.keywords.niches;
+
+    if (!domain) {
+      return skipStage('no site domain configured for rank monitoring');
+    }
+
+    const monitor = new RankMonitor({
+      keywords,
+      targetUrl: `https://${domain}`,
+      searchEngine: 'google',
+      outputDir: `${getDataDir(config)}/rankings`,
+      interval: 24,
+      ...(options as Partial<MonitorConfig>)
+    });
+
+    await monitor.startMonitoring();
+    return { keywords: keywords.length };
+  },
+  async plan({ config, state, stageId, recorder }: PlanContext): Promise<StagePlan> {
+    const domain = config.deploy.sites?.[0]?.domain;
+    const keywords = state.plannedArticles || config.keywords.niches;
+
+    if (!domain) {
+      return { summary: 'no site domain configured, would skip' };
+    }
+
+    keywords.forEach(keyword => {
+      recorder.record({ stage: stageId, service: 'google', action: 'ranking lookup', target: keyword, details: { domain } });
+    });
+
+    return { summary: `${keywords.length} keyword ranking(s) for ${domain}` };
+  }
+};
+
+const weeklyReport: StageDefinition = {
+  name: 'weekly-report',
+  description: 'Generate the weekly cluster SEO report and optionally email it (auto-reports)',
+  async run({ options, logger }: StageContext): Promise<{ reportPath: string }> {
+    const generator = new ReportGenerator({
+      outputDir: './data/reports',
+      ...(options as Partial<ReportConfig>)
+    });
+
+    const reportPath = await generator.generateWeeklyReport();
+    logger.info(`📝 Weekly report: ${reportPath}`);
+
+    return { reportPath };
+  },
+  async plan({ options, stageId, recorder }: PlanContext): Promise<StagePlan> {
+    const email = (options as Partial<ReportConfig>).email;
+    if (email?.enabled) {
+      recorder.record({ stage: stageId, service: 'smtp', action: 'send', target: email.to.join(', ') });
+    }
+
+    return { summary: `write report to ${(options as Partial<ReportConfig>).outputDir || './data/reports'}${email?.enabled ? ' and email it' : ''}` };
+  }
+};
+
+const dataBackup: StageDefinition = {
+  name: 'data-backup',
+  description: 'Back up the data directory and prune old backups (data-sync)',
+  async run({ options }: StageContext): Promise<{ backupPath: string }> {
+    const manager = new DataSyncManager({
+      dataDir: './data',
+      backupDir: './backups',
+      maxBackups: 10,
+      autoBackup: true,
+      backupInterval: 24,
+      ...(options as Partial<SyncConfig>)
+    });
+
+    const backupPath = await manager.createBackup();
+    await manager.cleanupOldBackups();
+
+    return { backupPath };
+  },
+  async plan({ options }: PlanContext): Promise<StagePlan> {
+    const syncConfig = { dataDir: './data', backupDir: './backups', ...(options as Partial<SyncConfig>) };
+    return { summary: `archive ${syncConfig.dataDir} into ${syncConfig.backupDir}` };
+  }
+};
+
+/**
+ * 创建包含所有内置阶段的注册表
+ */
+export function createDefaultRegistry(): StageRegistry {
+  const registry = new StageRegistry();
+
+  [
+    keywordScraping,
+    articleGeneration,
+    codeVerification,
+    structuredData,
+    siteBuild,
+    deployment,
+    sitemapSubmission,
+    internalLinking,
+    imageGeneration,
+    seoAudit,
+    socialPublishing,
+    rankMonitoring,
+    weeklyReport,
+    dataBackup
+  ].forEach(stage => registry.register(stage));
+
+  return registry;
+}
+
+/**
+ * 关键词阶段未运行时，读取最近一次保存的关键词文件
+ */
+function loadLatestKeywords(dataDir: string, logger: StageContext['logger']): KeywordData[] {
+  const keywordsDir = join(process.cwd(), dataDir, 'keywords');
+  if (!existsSync(keywordsDir)) {
+    return [];
+  }
+
+  const latest = readdirSync(keywordsDir)
+    .filter(file => /^keywords-.*\.json$/.test(file))
+    .sort()
+    .pop();
+
+  if (!latest) {
+    return [];
+  }
+
+  logger.info(`📂 Using keywords from: ${join(dataDir, 'keywords', latest)}`);
+  return JSON.parse(readFileSync(join(keywordsDir, latest), 'utf-8'));
+}
+
+function syncArticlesToSite(articlesDir: string, logger: StageContext['logger']): ContentSyncReport {
+  const report = createContentSync(articlesDir).sync();
+
+  logger.info(
+    `📄 Content synced: ${report.added.length} added, ${report.updated.length} updated, ` +
+    `${report.removed.length} removed, ${report.unchanged.length} unchanged`
+  );
+
+  for (const { file, errors } of report.invalid) {
+    logger.warn(`⚠️  Invalid frontmatter in ${file}, not synced`, { errors });
+  }
+
+  for (const { file, reason } of report.collisions) {
+    logger.warn(`⚠️  Slug collision for ${file}: ${reason}`);
+  }
+
+  return report;
+}
+
+function createContentSync(articlesDir: string): ContentSync {
+  return new ContentSync({
+    sourceDir: join(process.cwd(), articlesDir),
+    targetDir: join(process.cwd(), 'packages/site-template/src/content/posts')
+  });
+}
+
+/**
+ * 本次要生成文章的关键词；配置了 articles.topics 时从专题规划中挑选
+ * （规划文件不存在时用候选关键词创建，save 为 false 时只在内存中创建）
+ */
+function selectArticleKeywords(
+  config: PipelineConfig,
+  state: PipelineState,
+  logger: StageContext['logger'],
+  save = true
+): { keywords: KeywordInput[]; topicPlan?: TopicPlan } {
+  const candidates = getKeywordCandidates(config, state, logger);
+
+  if (config.articles.topics) {
+    const topicPlan = loadOrCreateTopicPlan(config, candidates, logger, save);
+    return {
+      keywords: selectPlannedKeywords(topicPlan, config.articles.count, keyword => findNiche(config, keyword)),
+      topicPlan
+    };
+  }
+
+  return {
+    keywords: candidates.slice(0, config.articles.count).map(keyword => ({ ...keyword, niche: findNiche(config, keyword.keyword) }))
+  };
+}
+
+/**
+ * 候选关键词：爬取结果（或最近一次保存的结果），其次是站点关键词，关闭爬取时用领域名
+ */
+export function getKeywordCandidates(config: PipelineConfig, state: PipelineState, logger: StageContext['logger']): KeywordInput[] {
+  const scraped = state.keywords || loadLatestKeywords(getDataDir(config), logger);
+  const siteKeywords = config.site?.keywords.map(keyword => ({ keyword, volume: 0, difficulty: 0 })) || [];
+  // 关闭关键词爬取（如离线运行）时直接使用领域名
+  const nicheKeywords = config.keywords.enabled
+    ? []
+    : config.keywords.niches.map(keyword => ({ keyword, volume: 0, difficulty: 0 }));
+
+  return [scraped, siteKeywords, nicheKeywords].find(list => list.length > 0) || [];
+}
+
+/**
+ * 关键词所属领域（决定使用哪个 prompts/niches/ 覆盖）：站点的领域，否则为关键词中包含的第一个配置领域
+ */
+function findNiche(config: PipelineConfig, keyword: string): string | undefined {
+  return config.site?.niche
+    || config.keywords.niches.find(niche => keyword.toLowerCase().includes(niche.toLowerCase()));
+}
+
+// 各内容提供方对应的 validateFeatureConfig 功能名
+export const PROVIDER_FEATURES: Record<ProviderName, string> = {
+  claude: 'article-gen',
+  openai: 'gpt4-gen',
+  gemini: 'gemini-gen',
+  mock: 'mock'
+};
+
+export function createContentGenerator(config: PipelineConfig, budget?: BudgetTracker, runId?: string): ContentGenerator {
+  const env = loadConfig();
+  const batchRate = { requestsPerMinute: 60000 / Math.max(env.BATCH_DELAY_MS, 1) };
+
+  return new ContentGenerator({
+    budget,
+    runId,
+    outputDir: getDataDir(config),
+    fixtures: config.articles.fixtures,
+    mode: config.articles.mode,
+    quality: config.articles.quality,
+    dedupe: config.articles.dedupe,
+    slugs: config.articles.slugs,
+    stream: config.articles.stream,
+    prompts: new PromptLibrary({ overridesDir: config.prompts?.dir, site: config.site?.id }),
+    queue: {
+      concurrency: env.QUEUE_CONCURRENCY,
+      maxRetries: env.QUEUE_MAX_RETRIES,
+      retryDelayMs: env.QUEUE_RETRY_DELAY_MS,
+      ...config.articles.queue,
+      // BATCH_DELAY_MS 为每个提供方两次请求的最小间隔
+      rateLimits: {
+        claude: batchRate,
+        openai: batchRate,
+        gemini: batchRate,
+        ...config.articles.queue?.rateLimits
+      }
+    },
+    selection: {
+      provider: config.articles.provider || 'claude',
+      model: config.articles.model,
+      rules: config.articles.providerRules
+    },
+    apiKeys: {
+      claude: env.ANTHROPIC_API_KEY,
+      openai: env.OPENAI_API_KEY,
+      gemini: env.GEMINI_API_KEY
+    },
+    template: {
+      minWords: config.articles.minWords,
+      includeCodeExamples: config.articles.includeCodeExamples ?? true,
+      includeImages: config.articles.includeImages ?? true,
+      tone: config.articles.tone || 'technical',
+      language: config.articles.language || 'zh-CN'
+    }
+  });
+}
+
+function countMarkdownFiles(dir: string): number {
+  const fullPath = join(process.cwd(), dir);
+  return existsSync(fullPath) ? readdirSync(fullPath).filter(file => file.endsWith('.md')).length : 0;
+}
@@ -0,0 +1,160 @@
+/**
+ * Topic Cluster Generation
+ * 专题生成 - 读取或创建专题规划，按规划挑选待生成的文章，先生成支柱文章，再生成链接到它的支撑文章
+ */
+
+import { writeArticleIndex, type DuplicatePair, type GeneratedArticle, type KeywordInput } from '@seo-spy/article-gen';
+import type { ContentGenerator } from '@seo-spy/content-provider';
+import type { Logger } from '@seo-spy/logger';
+import {
+  TopicPlanner,
+  getPendingEntries,
+  loadTopicPlan,
+  markGenerated,
+  saveTopicPlan,
+  type PlanEntry,
+  type PlanKeyword,
+  type TopicPlan
+} from '@seo-spy/topic-planner';
+import { getDataDir, getTopicPlanPath } from './paths.js';
+import type { PipelineConfig } from './types.js';
+
+export interface GenerationResult {
+  articles: GeneratedArticle[];
+  quarantined: GeneratedArticle[];
+  duplicates: DuplicatePair[];
+  // 因预算用尽未处理的关键词
+  unprocessed: KeywordInput[];
+}
+
+/**
+ * 读取规划文件；不存在时用候选关键词创建（save 为 false 时只在内存中创建，用于 plan 模式）
+ */
+export function loadOrCreateTopicPlan(
+  config: PipelineConfig,
+  candidates: PlanKeyword[],
+  logger: Logger,
+  save = true
+): TopicPlan {
+  const path = getTopicPlanPath(config);
+  const existing = loadTopicPlan(path);
+  if (existing) {
+    logger.info(`🗂️  Using topic plan: ${path}`);
+    return existing;
+  }
+
+  const plan = new TopicPlanner(config.articles.topics).plan(candidates);
+  if (save) {
+    saveTopicPlan(path, plan);
+    logger.info(`🗂️  Created topic plan with ${plan.clusters.length} cluster(s): ${path} (edit it to adjust later runs)`);
+  }
+
+  return plan;
+}
+
+/**
+ * 规划中待生成的文章（最多 limit 篇），带专题上下文
+ */
+export function selectPlannedKeywords(
+  plan: TopicPlan,
+  limit: number,
+  findNiche: (keyword: string) => string | undefined
+): KeywordInput[] {
+  return getPendingEntries(plan, limit).map(entry => toKeywordInput(entry, findNiche(entry.article.keyword)));
+}
+
+export function getArticleUrl(slug: string): string {
+  return `/articles/${slug}/`;
+}
+
+export async function runGeneration(generator: ContentGenerator, keywords: KeywordInput[]): Promise<GenerationResult> {
+  const articles = await generator.generateAll(keywords);
+
+  return {
+    articles,
+    quarantined: generator.getQuarantinedArticles(),
+    duplicates: generator.getDuplicates(),
+    unprocessed: generator.getUnprocessedKeywords()
+  };
+}
+
+/**
+ * 分两轮生成：先生成支柱文章并记录 slug，再生成支撑文章（此时已知支柱文章地址），每轮结束后保存规划
+ * 支柱文章没有生成成功的支撑文章留到下次运行
+ */
+export async function generatePlannedArticles(
+  generator: ContentGenerator,
+  config: PipelineConfig,
+  plan: TopicPlan,
+  keywords: KeywordInput[],
+  logger: Logger
+): Promise<GenerationResult> {
+  const total: GenerationResult = { articles: [], quarantined: [], duplicates: [], unprocessed: [] };
+  const pillars = keywords.filter(keyword => keyword.cluster?.role === 'pillar');
+  const supporting = keywords.filter(keyword => keyword.cluster?.role === 'supporting');
+
+  const runWave = async (wave: KeywordInput[]) => {
+    const result = await runGeneration(generator, wave);
+
+    total.articles.push(...result.articles);
+    total.quarantined.push(...result.quarantined);
+    total.duplicates.push(...result.duplicates);
+    total.unprocessed.push(...result.unprocessed);
+
+    markGenerated(plan, result.articles.map(article => ({ keyword: article.metadata.keyword, slug: article.slug })));
+    saveTopicPlan(getTopicPlanPath(config), plan);
+  };
+
+  if (pillars.length > 0) {
+    logger.info(`🏛️  Generating ${pillars.length} pillar article(s)`);
+    await runWave(pillars);
+  }
+
+  // 预算用尽时支撑文章也留到下次
+  if (total.unprocessed.length > 0) {
+    total.unprocessed.push(...supporting);
+    return total;
+  }
+
+  const ready = supporting.flatMap(keyword => {
+    const cluster = plan.clusters.find(candidate => candidate.id === keyword.cluster!.id);
+    return cluster?.pillar.slug
+      ? [{ ...keyword, cluster: { ...keyword.cluster!, pillarUrl: getArticleUrl(cluster.pillar.slug) } }]
+      : [];
+  });
+
+  if (ready.length < supporting.length) {
+    logger.warn(`⏸️  ${supporting.length - ready.length} supporting article(s) wait for their pillar article`);
+  }
+
+  if (ready.length > 0) {
+    logger.info(`🧱 Generating ${ready.length} supporting article(s)`);
+    await runWave(ready);
+  }
+
+  // 每轮都会覆盖索引，最后写入两轮的全部文章
+  if (pillars.length > 0 && ready.length > 0) {
+    writeArticleIndex(getDataDir(config), total.articles);
+  }
+
+  return total;
+}
+
+function toKeywordInput(entry: PlanEntry, niche: string | undefined): KeywordInput {
+  const { cluster, role, article } = entry;
+  const members = [cluster.pillar, ...cluster.supporting];
+
+  return {
+    keyword: article.keyword,
+    volume: article.volume,
+    difficulty: article.difficulty,
+    niche,
+    cluster: {
+      id: cluster.id,
+      role,
+      pillarKeyword: cluster.pillar.keyword,
+      pillarUrl: cluster.pillar.slug ? getArticleUrl(cluster.pillar.slug) : undefined,
+      related: members.filter(member => member !== article).map(member => member.keyword)
+    }
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Pipeline Types
+ * 流水线配置与阶段数据类型
+ */
+
+import type { KeywordData, KeywordSource } from '@seo-spy/keyword-spy';
+import type {
+  ArticleTemplate,
+  DedupeConfig,
+  DuplicatePair,
+  GeneratedArticle,
+  GenerationMode,
+  QualityGateConfig,
+  RefreshCriteria,
+  SlugOptions,
+  StreamRecoveryOptions
+} from '@seo-spy/article-gen';
+import type { DeploymentResult, SiteConfig as DeploySiteConfig } from '@seo-spy/deploy';
+import type { SubmitResult } from '@seo-spy/sitemap-submitter';
+import type { GeneratedImage } from '@seo-spy/image-gen';
+import type { AuditResult } from '@seo-spy/seo-audit';
+import type { PublishResult } from '@seo-spy/social-publisher';
+import type { BudgetLimits, BudgetSummary } from '@seo-spy/llm-budget';
+import type { FixtureOptions, GenerationQueueOptions, ProviderName, ProviderRule } from '@seo-spy/content-provider';
+import type { TopicPlannerOptions } from '@seo-spy/topic-planner';
+
+/**
+ * 多站点运行时的目标站点（来自 data/cluster-config.json）
+ */
+export interface PipelineSite {
+  id: string;
+  name: string;
+  domain: string;
+  niche: string;
+  keywords: string[];
+}
+
+/**
+ * 阶段失败策略：abort 停止流水线（默认），continue 记录失败后继续执行不依赖它的阶段，retry 按退避重试
+ */
+export type FailurePolicy = 'abort' | 'continue' | 'retry';
+
+export interface StageFailureConfig {
+  policy: FailurePolicy;
+  // retry 的退避参数，传给 @seo-spy/error-handler 的 withRetry
+  maxAttempts?: number;
+  initialDelay?: number;
+  maxDelay?: number;
+  backoffFactor?: number;
+  // 重试用尽后的处理，默认 abort
+  exhausted?: 'abort' | 'continue';
+  // 失败后按顺序执行补偿的已完成阶段 ID，如 post-deploy 检查失败时回滚 deployment
+  compensate?: string[];
+}
+
+/**
+ * 流水线图中的一个节点
+ */
+export interface StageNode {
+  id: string;
+  // 注册表中的阶段名或 @seo-spy/* 包名，默认与 id 相同
+  use?: string;
+  dependsOn?: string[];
+  enabled?: boolean;
+  options?: Record<string, unknown>;
+  // 失败策略，简写为策略名
+  onFailure?: FailurePolicy | StageFailureConfig;
+}
+
+/**
+ * 调度任务（pipeline.config.json 中的 schedule.jobs）
+ */
+export interface ScheduledJob {
+  id: string;
+  // 标准 5 段 cron 表达式：分 时 日 月 周
+  cron: string;
+  // 'pipeline' 运行整条流水线，否则为注册表中的阶段名
+  run: string;
+  options?: Record<string, unknown>;
+  // 仅对 run: 'pipeline' 有效：按站群配置运行单个或全部站点
+  site?: string;
+  allSites?: boolean;
+  // 共享同一锁名的任务不会同时运行，默认使用任务 id
+  lock?: string;
+  // 调度器停机期间错过的运行是否在启动时补跑，默认 true
+  catchUp?: boolean;
+  enabled?: boolean;
+}
+
+export interface PipelineConfig {
+  // 阶段依赖图，未配置时使用默认线性流程
+  stages?: StageNode[];
+  // 当前运行的目标站点，单站点模式下为空
+  site?: PipelineSite;
+  // 关键词配置
+  keywords: {
+    enabled: boolean;
+    niches: string[];
+    maxKeywords: number;
+    minVolume?: number;
+    sources?: KeywordSource[];
+  };
+  // 文章生成配置
+  articles: {
+    enabled: boolean;
+    count: number;
+    minWords: number;
+    // 内容提供方，默认 claude
+    provider?: ProviderName;
+    model?: string;
+    // 按关键词覆盖提供方，第一条命中的规则生效
+    providerRules?: ProviderRule[];
+    // 录制真实响应，或让 mock 提供方回放录制的响应
+    fixtures?: FixtureOptions;
+    // 仅 claude：single（默认）一次生成，multi-pass 分大纲、逐节撰写、关键词检查和修订
+    mode?: GenerationMode;
+    // 质量门禁：本地评分低于 minScore 的文章重新生成或隔离到 data/quarantine
+    quality?: QualityGateConfig;
+    // 保存前与 data/articles 和站点内容集合比较，拦截近似重复
+    dedupe?: DedupeConfig;
+    // 覆盖 QUEUE_* 环境变量；rateLimits 按提供方设置每分钟请求数，如 { "openai": { "requestsPerMinute": 30, "burst": 5 } }
+    queue?: GenerationQueueOptions;
+    // 按专题规划生成：先生成支柱文章，支撑文章链接到支柱文章；规划文件默认 data/topic-plan.json，可在生成前编辑
+    topics?: TopicPlannerOptions & { path?: string };
+    // slug：transliterate 为 pinyin（默认，中文转拼音）或 hash，maxLength 默认 60；已分配的 slug 记录在 data/slugs.json
+    slugs?: SlugOptions;
+    // 流式生成：部分输出默认保存在 data/partial，流断开时从最后一个完整小节续写，最多 maxResumes 次（默认 2）
+    stream?: StreamRecoveryOptions;
+    includeCodeExamples?: boolean;
+    includeImages?: boolean;
+    tone?: ArticleTemplate['tone'];
+    language?: ArticleTemplate['language'];
+  };
+  // 站点构建配置
+  build: {
+    enabled: boolean;
+    outputDir: string;
+  };
+  // 部署配置
+  deploy: {
+    enabled: boolean;
+    platform: 'cloudflare' | 'vercel' | 'netlify';
+    sites?: DeploySiteConfig[];
+  };
+  // Sitemap 提交配置
+  sitemap: {
+    enabled: boolean;
+    autoSubmit: boolean;
+    // 相对站点域名的 sitemap 路径
+    path?: string;
+  };
+  // 模型花费预算（美元），达到上限时停止生成
+  budget?: BudgetLimits;
+  // 定时任务配置（scheduler start）
+  schedule?: {
+    jobs: ScheduledJob[];
+  };
+  // 提示词模板覆盖目录，默认 prompts/（其下 sites/<站点 ID>/、niches/<领域>/ 按站点、领域覆盖）
+  prompts?: {
+    dir?: string;
+  };
+  // refresh 命令的默认挑选条件，命令行参数优先
+  refresh?: RefreshCriteria & {
+    // 追加到改写说明中的要求
+    brief?: string;
+    // rank-monitor 的排名历史，默认 data/rankings/ranking-history.json
+    rankingHistoryPath?: string;
+  };
+}
+
+/**
+ * 阶段之间传递的数据
+ */
+export interface PipelineState {
+  keywords?: KeywordData[];
+  articles?: GeneratedArticle[];
+  deployments?: DeploymentResult[];
+  sitemaps?: SubmitResult[];
+  images?: GeneratedImage[];
+  audits?: AuditResult[];
+  socialPosts?: PublishResult[];
+  // plan 模式下将要生成文章的关键词
+  plannedArticles?: string[];
+  // 因预算用尽未生成文章的关键词
+  unprocessedKeywords?: string[];
+  // 未通过质量门禁而被隔离的文章 slug
+  quarantinedArticles?: string[];
+  // 生成时发现的近似重复
+  duplicates?: DuplicatePair[];
+  budget?: BudgetSummary;
+}
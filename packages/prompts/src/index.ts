@@ -0,0 +1,225 @@
+#!/usr/bin/env node
+
+/**
+ * @seo-spy/prompts - Prompt Template Library
+ * 提示词模板库 - 提示词以带版本号的 Markdown 文件保存，支持变量、条件块和引用，可按站点或领域覆盖
+ *
+ * 模板语法：
+ * - {{keyword}}                      变量，缺少时抛错
+ * - {{#if includeCodeExamples}}…{{else}}…{{/if}}  条件块（不支持嵌套）
+ * - {{> article-gen.writer}}         引用另一个模板（同样按覆盖规则查找）
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join, relative } from 'path';
+import { fileURLToPath } from 'url';
+import matter from 'gray-matter';
+
+// ============================================
+// Types & Interfaces / 类型定义
+// ============================================
+
+export type PromptVariables = Record<string, string | number | boolean | undefined>;
+
+/**
+ * builtin：包内默认模板；override：项目级覆盖；niche / site：按领域 / 站点覆盖
+ */
+export type PromptSource = 'builtin' | 'override' | 'niche' | 'site';
+
+export interface PromptTemplate {
+  id: string;
+  version: string;
+  description: string;
+  body: string;
+  // 模板正文的 sha1 前 8 位，未改版本号的编辑也能区分
+  hash: string;
+  source: PromptSource;
+  path: string;
+}
+
+/**
+ * 生成一次提示词用到的模板（含引用的模板），记录在文章元数据中
+ */
+export interface PromptUsage {
+  id: string;
+  version: string;
+  hash: string;
+  source: PromptSource;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  templates: PromptUsage[];
+}
+
+export interface PromptLibraryOptions {
+  // 项目级覆盖目录，默认 prompts/；其下 sites/<站点 ID>/ 和 niches/<领域>/ 分别按站点、领域覆盖
+  overridesDir?: string;
+  site?: string;
+}
+
+// 包内默认模板目录（dist/ 的上一级）
+const BUILTIN_DIR = fileURLToPath(new URL('../templates/', import.meta.url));
+
+// ============================================
+// Prompt Library / 模板库
+// ============================================
+
+export class PromptLibrary {
+  private overridesDir: string;
+  private site?: string;
+  private cache: Map<string, PromptTemplate | null> = new Map();
+
+  constructor(options: PromptLibraryOptions = {}) {
+    this.overridesDir = join(process.cwd(), options.overridesDir || 'prompts');
+    this.site = options.site;
+  }
+
+  /**
+   * 查找模板：站点覆盖 → 领域覆盖 → 项目级覆盖 → 包内默认
+   * locale 存在时每一层先找 <id>.<locale>，再找 <id>；都没有时再按同样顺序回退到 <id>.en-US
+   */
+  get(id: string, options: { niche?: string; locale?: string } = {}): PromptTemplate {
+    const passes = options.locale ? [[`${id}.${options.locale}`, id], [`${id}.en-US`]] : [[id]];
+
+    for (const candidates of passes) {
+      for (const [source, dir] of this.getSearchDirs(options.niche)) {
+        for (const candidate of candidates) {
+          const template = this.load(dir, candidate, source);
+          if (template) {
+            return template;
+          }
+        }
+      }
+    }
+
+    throw new Error(`Prompt template not found: ${id}${options.locale ? ` (${options.locale})` : ''}`);
+  }
+
+  render(id: string, variables: PromptVariables, locale?: string): RenderedPrompt {
+    const templates: PromptUsage[] = [];
+    const niche = typeof variables.niche === 'string' ? variables.niche : undefined;
+
+    const renderTemplate = (templateId: string, depth: number): string => {
+      if (depth > 5) {
+        throw new Error(`Prompt template include depth exceeded at ${templateId}`);
+      }
+
+      const template = this.get(templateId, { niche, locale });
+      if (!templates.some(usage => usage.id === template.id)) {
+        templates.push({ id: template.id, version: template.version, hash: template.hash, source: template.source });
+      }
+
+      return template.body
+        .replace(/\{\{>\s*([\w.-]+)\s*\}\}/g, (_, includeId: string) => renderTemplate(includeId, depth + 1))
+        .replace(
+          /\{\{#if\s+(\w+)\s*\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g,
+          (_, name: string, whenTrue: string, whenFalse = '') => variables[name] ? whenTrue : whenFalse
+        )
+        .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+          if (variables[name] === undefined) {
+            throw new Error(`Missing variable "${name}" in prompt template ${template.id}`);
+          }
+          return String(variables[name]);
+        });
+    };
+
+    return { text: renderTemplate(id, 0), templates };
+  }
+
+  /**
+   * 当前站点下每个模板 ID 实际生效的版本
+   */
+  list(niche?: string): PromptTemplate[] {
+    const ids = new Set<string>();
+
+    for (const [, dir] of this.getSearchDirs(niche)) {
+      if (existsSync(dir)) {
+        readdirSync(dir).filter(file => file.endsWith('.md')).forEach(file => ids.add(file.replace(/\.md$/, '')));
+      }
+    }
+
+    return [...ids].sort().map(id => this.get(id, { niche }));
+  }
+
+  private getSearchDirs(niche?: string): [PromptSource, string][] {
+    return [
+      ...(this.site ? [['site', join(this.overridesDir, 'sites', this.site)] as [PromptSource, string]] : []),
+      ...(niche ? [['niche', join(this.overridesDir, 'niches', niche)] as [PromptSource, string]] : []),
+      ['override', this.overridesDir],
+      ['builtin', BUILTIN_DIR]
+    ];
+  }
+
+  private load(dir: string, id: string, source: PromptSource): PromptTemplate | undefined {
+    const path = join(dir, `${id}.md`);
+
+    if (!this.cache.has(path)) {
+      if (!existsSync(path)) {
+        this.cache.set(path, null);
+      } else {
+        const { data, content } = matter(readFileSync(path, 'utf-8'));
+        const body = content.replace(/^\n/, '').replace(/\s+$/, '');
+
+        this.cache.set(path, {
+          id,
+          version: String(data.version ?? '0'),
+          description: data.description || '',
+          body,
+          hash: createHash('sha1').update(body).digest('hex').slice(0, 8),
+          source,
+          path
+        });
+      }
+    }
+
+    return this.cache.get(path) || undefined;
+  }
+}
+
+/**
+ * 合并多次渲染用到的模板，按 ID 去重并保持首次出现的顺序
+ */
+export function mergePromptUsages(...groups: PromptUsage[][]): PromptUsage[] {
+  const merged: PromptUsage[] = [];
+
+  for (const usage of groups.flat()) {
+    if (!merged.some(existing => existing.id === usage.id)) {
+      merged.push(usage);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * 发送给模型的完整提示词（按顺序拼接 system / user 等各部分）的 sha256，用于追溯生成记录
+ */
+export function hashPrompt(...parts: string[]): string {
+  return createHash('sha256').update(parts.join('\n\n')).digest('hex');
+}
+
+/**
+ * 版本标识：<id>@<version>#<hash>
+ */
+export function formatPromptVersion(usage: PromptUsage): string {
+  return `${usage.id}@${usage.version}#${usage.hash}`;
+}
+
+// CLI 入口：列出生效的模板版本
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const value = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+
+  const library = new PromptLibrary({ site: value('--site') });
+
+  console.log('📝 Prompt templates\n');
+  for (const template of library.list(value('--niche'))) {
+    const location = template.source === 'builtin' ? 'builtin' : relative(process.cwd(), template.path);
+    console.log(`   ${formatPromptVersion(template).padEnd(44)} ${location}`);
+  }
+}
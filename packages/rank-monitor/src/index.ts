@@ -8,7 +8,7 @@
 import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
 
-interface MonitorConfig {
+export interface MonitorConfig {
   keywords: string[];
   targetUrl: string;
   searchEngine: 'google' | 'bing' | 'baidu';
@@ -16,7 +16,7 @@ interface MonitorConfig {
   interval: number; // hours
 }
 
-interface RankingData {
+export interface RankingData {
   keyword: string;
   url: string;
   position: number;
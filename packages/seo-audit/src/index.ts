@@ -5,13 +5,13 @@
  * SEO 审计模块 - 自动化 SEO 健康检查
  */
 
-interface AuditConfig {
+export interface AuditConfig {
   url: string;
   userAgent?: string;
   timeout?: number;
 }
 
-interface SEOScore {
+export interface SEOScore {
   overall: number;
   technical: number;
   content: number;
@@ -19,7 +19,7 @@ interface SEOScore {
   accessibility: number;
 }
 
-interface AuditIssue {
+export interface AuditIssue {
   category: string;
   severity: 'critical' | 'warning' | 'info';
   title: string;
@@ -27,7 +27,7 @@ interface AuditIssue {
   recommendation: string;
 }
 
-interface AuditResult {
+export interface AuditResult {
   url: string;
   score: SEOScore;
   issues: AuditIssue[];
@@ -2,7 +2,7 @@ import { defineConfig } from 'astro/config';
 // import sitemap from '@astrojs/sitemap';
 
 export default defineConfig({
-  site: 'https://example.com', // 动态配置
+  site: process.env.SITE_URL || 'https://example.com', // 多站点构建时由编排器传入
   // integrations: [sitemap()],
   build: {
     format: 'directory',
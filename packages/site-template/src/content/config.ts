@@ -7,10 +7,17 @@ const posts = defineCollection({
     description: z.string(),
     keywords: z.array(z.string()),
     date: z.coerce.date(),
+    updatedDate: z.coerce.date().optional(),
     author: z.string().default('AI Author'),
     tags: z.array(z.string()),
     seoScore: z.number().min(0).max(100).optional(),
     featured: z.boolean().default(false),
+    faq: z.array(z.object({ question: z.string(), answer: z.string() })).optional(),
+    howTo: z.object({
+      name: z.string(),
+      steps: z.array(z.object({ name: z.string().optional(), text: z.string() })).min(1),
+    }).optional(),
+    codeSamples: z.array(z.object({ language: z.string(), code: z.string(), title: z.string().optional() })).optional(),
   }),
 });
 
@@ -10,13 +10,13 @@ import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import { JWT } from 'google-auth-library';
 
-interface SitemapSubmitConfig {
+export interface SitemapSubmitConfig {
   siteUrl: string;
   sitemapUrl: string;
   credentialsPath: string; // Google Service Account JSON
 }
 
-interface SubmitResult {
+export interface SubmitResult {
   siteUrl: string;
   sitemapUrl: string;
   status: 'success' | 'failed';
@@ -5,7 +5,7 @@
  * 社交媒体自动发布模块
  */
 
-interface PostContent {
+export interface PostContent {
   title: string;
   url: string;
   excerpt: string;
@@ -13,20 +13,20 @@ interface PostContent {
   imageUrl?: string;
 }
 
-interface PlatformConfig {
+export interface PlatformConfig {
   enabled: boolean;
   apiKey?: string;
   characterLimit?: number;
   hashtags?: boolean;
 }
 
-interface PublisherConfig {
+export interface PublisherConfig {
   twitter?: PlatformConfig;
   linkedin?: PlatformConfig;
   facebook?: PlatformConfig;
 }
 
-interface PublishResult {
+export interface PublishResult {
   platform: string;
   success: boolean;
   postUrl?: string;
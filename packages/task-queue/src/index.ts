@@ -0,0 +1,306 @@
+/**
+ * @seo-spy/task-queue - Persistent Job Queue
+ * 批量任务队列：有界并发、按提供方的令牌桶限流、429 retry-after 和指数退避重试，
+ * 状态保存在磁盘上，中断的批次下次运行时从停下的地方继续
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { classifyError, isRetryable } from '@seo-spy/error-handler';
+import { TokenBucket, getRetryAfter, getStatusCode, sleep, type RateLimit } from './rate-limit.js';
+
+export { DEFAULT_RATE_LIMIT, TokenBucket, getRetryAfter, getStatusCode, type RateLimit } from './rate-limit.js';
+
+// ============================================
+// Types & Interfaces / 类型定义
+// ============================================
+
+export interface QueueJob<T> {
+  // 批次内唯一，持久化和续跑按 id 匹配
+  id: string;
+  data: T;
+  // 使用的限流器名（通常为提供方名），rateLimits 中没有对应项时不限流
+  limiter?: string;
+}
+
+export interface TaskQueueOptions {
+  // 同时执行的任务数，默认 1
+  concurrency?: number;
+  // 可重试错误（429、5xx、网络、超时）的最大重试次数，默认 3
+  maxRetries?: number;
+  // 首次重试的等待时间，之后按 2 倍递增；响应带 retry-after 时以其为准
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  rateLimits?: Record<string, RateLimit>;
+  // 状态目录（相对当前目录），不设置时不持久化
+  stateDir?: string;
+  // 返回 true 的错误（如预算用尽）立即停止队列，未开始的任务保持 pending
+  isFatal?: (error: unknown) => boolean;
+}
+
+export type JobStatus = 'pending' | 'done' | 'failed';
+
+export interface JobRecord {
+  id: string;
+  status: JobStatus;
+  attempts: number;
+  error?: string;
+  updatedAt: string;
+}
+
+/**
+ * <stateDir>/queue.json，已完成任务的结果保存在 <stateDir>/results/ 下
+ */
+export interface QueueState {
+  updatedAt: string;
+  jobs: Record<string, JobRecord>;
+}
+
+export interface QueueResult<T, R> {
+  // 按输入顺序；resumed 表示结果来自之前中断的运行
+  completed: Array<{ job: QueueJob<T>; result: R; resumed: boolean }>;
+  failed: Array<{ job: QueueJob<T>; error: Error }>;
+  // 队列停止时尚未执行的任务
+  pending: QueueJob<T>[];
+  stoppedBy?: Error;
+}
+
+type JobOutcome<R> =
+  | { type: 'done'; result: R }
+  | { type: 'failed'; error: Error }
+  | { type: 'stopped'; error: Error };
+
+// ============================================
+// Task Queue / 任务队列
+// ============================================
+
+export class TaskQueue<T, R> {
+  private options: TaskQueueOptions;
+  private buckets: Map<string, TokenBucket> = new Map();
+  private stateDir?: string;
+  private state: QueueState = { updatedAt: new Date().toISOString(), jobs: {} };
+
+  constructor(options: TaskQueueOptions = {}) {
+    this.options = options;
+    this.stateDir = options.stateDir ? resolve(process.cwd(), options.stateDir) : undefined;
+  }
+
+  async run(jobs: QueueJob<T>[], worker: (data: T, job: QueueJob<T>) => Promise<R>): Promise<QueueResult<T, R>> {
+    const unique = this.dedupeJobs(jobs);
+    this.state = this.loadState(new Set(unique.map(job => job.id)));
+
+    const completed: (QueueResult<T, R>['completed'][number] | undefined)[] = [];
+    const failed: QueueResult<T, R>['failed'] = [];
+    const queue: number[] = [];
+
+    unique.forEach((job, index) => {
+      const stored = this.state.jobs[job.id]?.status === 'done' ? this.loadResult(job.id) : undefined;
+
+      if (stored !== undefined) {
+        completed[index] = { job, result: stored, resumed: true };
+      } else {
+        queue.push(index);
+        this.state.jobs[job.id] ??= { id: job.id, status: 'pending', attempts: 0, updatedAt: new Date().toISOString() };
+      }
+    });
+    this.writeJson('queue.json', this.state);
+
+    const resumed = unique.length - queue.length;
+    const concurrency = Math.max(1, Math.min(this.options.concurrency || 1, queue.length));
+    console.log(`📋 Queue: ${queue.length} job(s), concurrency ${concurrency}${resumed > 0 ? `, ${resumed} already done in an interrupted run` : ''}`);
+
+    let stoppedBy: Error | undefined;
+
+    const runWorker = async () => {
+      while (!stoppedBy && queue.length > 0) {
+        const index = queue.shift()!;
+        const job = unique[index];
+        const outcome = await this.runJob(job, worker, () => stoppedBy !== undefined);
+
+        if (outcome.type === 'done') {
+          completed[index] = { job, result: outcome.result, resumed: false };
+        } else if (outcome.type === 'failed') {
+          failed.push({ job, error: outcome.error });
+        } else {
+          // 任务本身留在 pending，下次运行重新执行
+          stoppedBy ??= outcome.error;
+          queue.unshift(index);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: concurrency }, runWorker));
+
+    const pending = queue.sort((a, b) => a - b).map(index => unique[index]);
+    this.finish();
+
+    return {
+      completed: completed.filter((entry): entry is NonNullable<typeof entry> => entry !== undefined),
+      failed,
+      pending,
+      stoppedBy
+    };
+  }
+
+  /**
+   * 执行一个任务：取令牌 → 调用 → 可重试错误按 retry-after 或退避等待后重试
+   */
+  private async runJob(
+    job: QueueJob<T>,
+    worker: (data: T, job: QueueJob<T>) => Promise<R>,
+    isStopped: () => boolean
+  ): Promise<JobOutcome<R>> {
+    const { maxRetries = 3, retryDelayMs = 5000, maxRetryDelayMs = 60000 } = this.options;
+    const bucket = this.getBucket(job.limiter);
+
+    for (let attempt = 1; ; attempt++) {
+      await bucket?.take();
+
+      try {
+        const result = await worker(job.data, job);
+        this.saveResult(job.id, result);
+        this.updateJob(job.id, 'done', attempt);
+        return { type: 'done', result };
+      } catch (caught) {
+        const error = caught instanceof Error ? caught : new Error(String(caught));
+
+        // 致命错误或队列已停止时不再重试，任务留给下次运行
+        if (this.options.isFatal?.(caught) || (isStopped() && attempt > 1)) {
+          this.updateJob(job.id, 'pending', attempt - 1);
+          return { type: 'stopped', error };
+        }
+
+        const status = getStatusCode(caught);
+        const category = status === 429 ? 'rate_limit' : status !== undefined && status >= 500 ? 'api' : classifyError(error);
+
+        if (!isRetryable(category, status) || attempt > maxRetries) {
+          this.updateJob(job.id, 'failed', attempt, error.message);
+          return { type: 'failed', error };
+        }
+
+        const delay = getRetryAfter(caught) ?? Math.min(retryDelayMs * Math.pow(2, attempt - 1), maxRetryDelayMs);
+
+        // 限流时同一提供方的其他任务也一起等待
+        if (category === 'rate_limit') {
+          bucket?.pause(delay);
+        }
+
+        console.warn(`🔁 "${job.id}" failed (${status ?? category}): ${error.message}, retry ${attempt}/${maxRetries} in ${(delay / 1000).toFixed(1)}s`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private getBucket(limiter?: string): TokenBucket | undefined {
+    const limit = limiter ? this.options.rateLimits?.[limiter] : undefined;
+    if (!limiter || !limit) {
+      return undefined;
+    }
+
+    let bucket = this.buckets.get(limiter);
+    if (!bucket) {
+      bucket = new TokenBucket(limit);
+      this.buckets.set(limiter, bucket);
+    }
+
+    return bucket;
+  }
+
+  private dedupeJobs(jobs: QueueJob<T>[]): QueueJob<T>[] {
+    const seen = new Set<string>();
+
+    return jobs.filter(job => {
+      if (seen.has(job.id)) {
+        console.warn(`⚠️  Duplicate job "${job.id}" skipped`);
+        return false;
+      }
+      seen.add(job.id);
+      return true;
+    });
+  }
+
+  // ============================================
+  // Persistence / 持久化
+  // ============================================
+
+  /**
+   * 读取上次保存的状态，只保留本批次中的任务；之前批次留下的记录不会再执行，一并清除
+   */
+  private loadState(ids: Set<string>): QueueState {
+    const path = this.stateDir && join(this.stateDir, 'queue.json');
+
+    if (!path || !existsSync(path)) {
+      return { updatedAt: new Date().toISOString(), jobs: {} };
+    }
+
+    try {
+      const state = JSON.parse(readFileSync(path, 'utf-8')) as QueueState;
+      for (const id of Object.keys(state.jobs)) {
+        if (!ids.has(id)) {
+          delete state.jobs[id];
+          rmSync(join(this.stateDir!, 'results', `${hashId(id)}.json`), { force: true });
+        }
+      }
+      return state;
+    } catch (error) {
+      console.warn(`⚠️  Ignoring unreadable queue state ${path}:`, error);
+      return { updatedAt: new Date().toISOString(), jobs: {} };
+    }
+  }
+
+  private updateJob(id: string, status: JobStatus, attempts: number, error?: string): void {
+    const previous = this.state.jobs[id];
+    const updatedAt = new Date().toISOString();
+
+    this.state.jobs[id] = { id, status, attempts: (previous?.attempts || 0) + attempts, error, updatedAt };
+    this.state.updatedAt = updatedAt;
+    this.writeJson('queue.json', this.state);
+  }
+
+  private saveResult(id: string, result: R): void {
+    this.writeJson(join('results', `${hashId(id)}.json`), result);
+  }
+
+  private loadResult(id: string): R | undefined {
+    const path = this.stateDir && join(this.stateDir, 'results', `${hashId(id)}.json`);
+    return path && existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) as R : undefined;
+  }
+
+  /**
+   * 先写临时文件再重命名，进程中途退出也不会留下半个文件
+   */
+  private writeJson(file: string, data: unknown): void {
+    if (!this.stateDir) {
+      return;
+    }
+
+    const path = join(this.stateDir, file);
+    mkdirSync(join(path, '..'), { recursive: true });
+    writeFileSync(`${path}.tmp`, JSON.stringify(data, null, 2));
+    renameSync(`${path}.tmp`, path);
+  }
+
+  /**
+   * 没有未执行的任务时删除状态目录（失败的任务不会续跑，下次出现在批次中时重新执行）；
+   * 队列被停止或进程中断时保留，下次运行继续
+   */
+  private finish(): void {
+    if (!this.stateDir || !existsSync(this.stateDir)) {
+      return;
+    }
+
+    const records = Object.values(this.state.jobs);
+    const remaining = records.filter(record => record.status === 'pending').length;
+
+    if (remaining === 0) {
+      rmSync(this.stateDir, { recursive: true, force: true });
+    } else {
+      console.log(`💾 Queue state saved to ${this.stateDir} (${remaining} job(s) left for the next run)`);
+    }
+  }
+}
+
+function hashId(id: string): string {
+  return createHash('sha1').update(id).digest('hex').slice(0, 16);
+}
@@ -0,0 +1,105 @@
+/**
+ * Rate Limiting
+ * 令牌桶限流与 429 retry-after 解析
+ */
+
+export interface RateLimit {
+  requestsPerMinute: number;
+  // 桶容量（允许的突发请求数），默认 1，即请求均匀分布
+  burst?: number;
+}
+
+// 未单独配置时每个提供方每分钟 60 次，与原先每次调用后等待 1 秒一致
+export const DEFAULT_RATE_LIMIT: RateLimit = { requestsPerMinute: 60 };
+
+export class TokenBucket {
+  private capacity: number;
+  private refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+
+  constructor(limit: RateLimit) {
+    if (!(limit.requestsPerMinute > 0)) {
+      throw new Error(`Invalid rate limit: requestsPerMinute must be positive, got ${limit.requestsPerMinute}`);
+    }
+
+    this.capacity = Math.max(1, limit.burst ?? 1);
+    this.refillPerMs = limit.requestsPerMinute / 60000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * 取一个令牌，没有可用令牌或处于暂停期时等待
+   */
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.refill(now);
+
+      const wait = Math.max(
+        this.pausedUntil - now,
+        this.tokens >= 1 ? 0 : (1 - this.tokens) / this.refillPerMs
+      );
+
+      if (wait <= 0) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(Math.ceil(wait));
+    }
+  }
+
+  /**
+   * 收到 429 后暂停整个桶（同一提供方的并发任务一起等待），并清空令牌
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * 从错误中读取 retry-after（毫秒）
+ * 支持 SDK 错误的 headers（Headers 或普通对象，秒数或 HTTP 日期）和 createRateLimitError 的 retryAfter（秒）
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  const source = error as { headers?: unknown; metadata?: { retryAfter?: unknown } } | undefined;
+  const headers = source?.headers as { get?: (name: string) => string | null } & Record<string, unknown> | undefined;
+
+  const value = source?.metadata?.retryAfter
+    ?? (typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after']);
+
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * SDK 错误上的 HTTP 状态码（Anthropic / OpenAI 为 status，Gemini 为 status 或 statusCode）
+ */
+export function getStatusCode(error: unknown): number | undefined {
+  const source = error as { status?: unknown; statusCode?: unknown; metadata?: { statusCode?: unknown } } | undefined;
+  const status = source?.status ?? source?.statusCode ?? source?.metadata?.statusCode;
+
+  return typeof status === 'number' ? status : undefined;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,336 @@
+/**
+ * @seo-spy/topic-planner - Topic Cluster Planning
+ * 专题规划 - 把 keyword-spy 的关键词按主题聚成专题，每个专题一篇支柱文章（覆盖面最广的关键词）和若干支撑文章，
+ * 规划保存为可手动编辑的 JSON 文件，生成时支撑文章链接到支柱文章
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { z } from 'zod';
+import { AppError } from '@seo-spy/error-handler';
+import type { KeywordData } from '@seo-spy/keyword-spy';
+
+// ============================================
+// Types & Interfaces / 类型定义
+// ============================================
+
+export type PlanKeyword = Pick<KeywordData, 'keyword' | 'volume' | 'difficulty'>;
+
+export type ArticleRole = 'pillar' | 'supporting';
+
+export interface PlannedArticle extends PlanKeyword {
+  // 生成并保存后写入，有 slug 的文章不再生成
+  slug?: string;
+  generatedAt?: string;
+}
+
+export interface TopicCluster {
+  id: string;
+  pillar: PlannedArticle;
+  supporting: PlannedArticle[];
+}
+
+/**
+ * 规划文件内容；手动编辑时可调整分组、增删关键词，volume / difficulty 可省略
+ */
+export interface TopicPlan {
+  version: 1;
+  createdAt: string;
+  updatedAt: string;
+  clusters: TopicCluster[];
+}
+
+export interface TopicPlannerOptions {
+  // 关键词与支柱关键词的词重合度（重合词数 / 较短一方的词数）达到此值时归入该专题，默认 0.5
+  similarity?: number;
+  // 每个专题最多的支撑文章数，默认 8
+  maxSupporting?: number;
+}
+
+/**
+ * 待生成的一篇文章及其所在专题
+ */
+export interface PlanEntry {
+  cluster: TopicCluster;
+  role: ArticleRole;
+  article: PlannedArticle;
+}
+
+export class TopicPlanError extends AppError {
+  public readonly issues: string[];
+
+  constructor(path: string, issues: string[]) {
+    super(`Invalid topic plan ${path}: ${issues.join('; ')}`, {
+      category: 'validation',
+      severity: 'high',
+      code: 'TOPIC_PLAN_INVALID',
+      retryable: false,
+      path,
+      issues
+    });
+    this.name = 'TopicPlanError';
+    this.issues = issues;
+  }
+}
+
+const plannedArticleSchema = z.object({
+  keyword: z.string().trim().min(1, 'is required'),
+  volume: z.number().default(0),
+  difficulty: z.number().default(0),
+  slug: z.string().min(1).optional(),
+  generatedAt: z.string().optional()
+});
+
+const topicPlanSchema = z.object({
+  version: z.literal(1),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  clusters: z.array(z.object({
+    id: z.string().trim().min(1, 'is required'),
+    pillar: plannedArticleSchema,
+    supporting: z.array(plannedArticleSchema).default([])
+  }))
+});
+
+// 不参与分组的常见词；中文按二元组切分，这里列出的是常见的泛化二元组
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'to', 'in', 'on', 'for', 'of', 'and', 'or', 'with', 'how', 'what', 'why', 'is', 'are', 'vs',
+  '如何', '什么', '怎么', '使用', '教程', '问题', '入门', '详解'
+]);
+
+// ============================================
+// Topic Planner / 专题规划
+// ============================================
+
+export class TopicPlanner {
+  private similarity: number;
+  private maxSupporting: number;
+
+  constructor(options: TopicPlannerOptions = {}) {
+    this.similarity = options.similarity ?? 0.5;
+    this.maxSupporting = options.maxSupporting ?? 8;
+  }
+
+  /**
+   * 把关键词分组为专题；传入已有规划时保留其中的分组和编辑，只把新关键词并入
+   * 覆盖面广（词数少）、搜索量高的关键词优先成为支柱
+   */
+  plan(keywords: PlanKeyword[], existing?: TopicPlan): TopicPlan {
+    const now = new Date().toISOString();
+    const plan: TopicPlan = existing
+      ? { ...existing, clusters: existing.clusters.map(cluster => ({ ...cluster, supporting: [...cluster.supporting] })) }
+      : { version: 1, createdAt: now, updatedAt: now, clusters: [] };
+
+    const planned = new Set(getPlanEntries(plan).map(entry => normalize(entry.article.keyword)));
+    const candidates = keywords
+      .filter(keyword => {
+        const key = normalize(keyword.keyword);
+        if (!key || planned.has(key)) {
+          return false;
+        }
+        planned.add(key);
+        return true;
+      })
+      .map(keyword => ({ keyword, tokens: tokenize(keyword.keyword) }))
+      .sort((a, b) => a.tokens.size - b.tokens.size || b.keyword.volume - a.keyword.volume);
+
+    const pillarTokens = new Map(plan.clusters.map(cluster => [cluster, tokenize(cluster.pillar.keyword)]));
+    let added = 0;
+
+    for (const { keyword, tokens } of candidates) {
+      const article: PlannedArticle = { keyword: keyword.keyword, volume: keyword.volume, difficulty: keyword.difficulty };
+      let best: { cluster: TopicCluster; score: number } | undefined;
+
+      for (const [cluster, pillar] of pillarTokens) {
+        const score = overlap(tokens, pillar);
+        if (score >= this.similarity && cluster.supporting.length < this.maxSupporting && score > (best?.score ?? 0)) {
+          best = { cluster, score };
+        }
+      }
+
+      if (best) {
+        best.cluster.supporting.push(article);
+      } else {
+        const cluster: TopicCluster = { id: createClusterId(keyword.keyword, plan.clusters), pillar: article, supporting: [] };
+        plan.clusters.push(cluster);
+        pillarTokens.set(cluster, tokens);
+      }
+      added++;
+    }
+
+    // 支撑文章按搜索量排序，优先生成
+    for (const cluster of plan.clusters.slice(existing?.clusters.length ?? 0)) {
+      cluster.supporting.sort((a, b) => b.volume - a.volume);
+    }
+
+    if (added > 0) {
+      plan.updatedAt = now;
+    }
+
+    return plan;
+  }
+}
+
+// ============================================
+// Plan Files / 规划文件
+// ============================================
+
+/**
+ * 读取规划文件，不存在时返回 undefined；格式错误（包括同一关键词出现多次）时抛出 TopicPlanError
+ */
+export function loadTopicPlan(path: string): TopicPlan | undefined {
+  const fullPath = resolve(process.cwd(), path);
+  if (!existsSync(fullPath)) {
+    return undefined;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(fullPath, 'utf-8'));
+  } catch (error) {
+    throw new TopicPlanError(path, [(error as Error).message]);
+  }
+
+  const result = topicPlanSchema.safeParse(data);
+  if (!result.success) {
+    throw new TopicPlanError(
+      path,
+      result.error.issues.map(issue => `${issue.path.join('.') || 'plan'}: ${issue.message}`)
+    );
+  }
+
+  const plan = result.data as TopicPlan;
+  const seen = new Set<string>();
+  const issues: string[] = [];
+
+  for (const { article } of getPlanEntries(plan)) {
+    const key = normalize(article.keyword);
+    if (seen.has(key)) {
+      issues.push(`keyword "${article.keyword}" appears more than once`);
+    }
+    seen.add(key);
+  }
+
+  if (new Set(plan.clusters.map(cluster => cluster.id)).size !== plan.clusters.length) {
+    issues.push('cluster ids must be unique');
+  }
+
+  if (issues.length > 0) {
+    throw new TopicPlanError(path, issues);
+  }
+
+  return plan;
+}
+
+export function saveTopicPlan(path: string, plan: TopicPlan): string {
+  const fullPath = resolve(process.cwd(), path);
+  mkdirSync(dirname(fullPath), { recursive: true });
+  writeFileSync(fullPath, JSON.stringify(plan, null, 2));
+
+  return fullPath;
+}
+
+/**
+ * 规划中的全部文章，按专题顺序，每个专题先支柱后支撑
+ */
+export function getPlanEntries(plan: TopicPlan): PlanEntry[] {
+  return plan.clusters.flatMap(cluster => [
+    { cluster, role: 'pillar' as const, article: cluster.pillar },
+    ...cluster.supporting.map(article => ({ cluster, role: 'supporting' as const, article }))
+  ]);
+}
+
+/**
+ * 尚未生成的文章：先是所有专题的支柱文章，再按专题顺序排列支撑文章
+ */
+export function getPendingEntries(plan: TopicPlan, limit?: number): PlanEntry[] {
+  const pending = getPlanEntries(plan).filter(entry => !entry.article.slug);
+  const ordered = [
+    ...pending.filter(entry => entry.role === 'pillar'),
+    ...pending.filter(entry => entry.role === 'supporting')
+  ];
+
+  return limit === undefined ? ordered : ordered.slice(0, limit);
+}
+
+/**
+ * 记录已生成文章的 slug，返回更新的条目数
+ */
+export function markGenerated(plan: TopicPlan, generated: { keyword: string; slug: string }[]): number {
+  const slugs = new Map(generated.map(item => [normalize(item.keyword), item.slug]));
+  const now = new Date().toISOString();
+  let updated = 0;
+
+  for (const { article } of getPlanEntries(plan)) {
+    const slug = slugs.get(normalize(article.keyword));
+    if (slug) {
+      article.slug = slug;
+      article.generatedAt = now;
+      updated++;
+    }
+  }
+
+  if (updated > 0) {
+    plan.updatedAt = now;
+  }
+
+  return updated;
+}
+
+// ============================================
+// Helpers / 辅助函数
+// ============================================
+
+/**
+ * 英文按单词切分，中文按二元组切分（单字词保留原字）
+ */
+function tokenize(keyword: string): Set<string> {
+  const tokens = new Set<string>();
+
+  for (const word of keyword.toLowerCase().match(/[a-z0-9][a-z0-9.+#-]*|[\u4e00-\u9fff]+/g) || []) {
+    if (!/^[\u4e00-\u9fff]+$/.test(word)) {
+      tokens.add(word);
+    } else if (word.length === 1) {
+      tokens.add(word);
+    } else {
+      for (let i = 0; i < word.length - 1; i++) {
+        tokens.add(word.slice(i, i + 2));
+      }
+    }
+  }
+
+  const meaningful = [...tokens].filter(token => !STOP_WORDS.has(token));
+  // 全是常见词时保留原样，避免关键词没有任何词可比较
+  return meaningful.length > 0 ? new Set(meaningful) : tokens;
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) {
+      shared++;
+    }
+  }
+
+  return shared / Math.min(a.size, b.size);
+}
+
+function normalize(keyword: string): string {
+  return keyword.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function createClusterId(keyword: string, clusters: TopicCluster[]): string {
+  const base = keyword.toLowerCase().trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'cluster';
+  const ids = new Set(clusters.map(cluster => cluster.id));
+
+  let id = base;
+  for (let i = 2; ids.has(id); i++) {
+    id = `${base}-${i}`;
+  }
+
+  return id;
+}